@@ -0,0 +1,68 @@
+// Local stand-in for an analytics collector.
+//
+//   npm run mock:analytics
+//   VITE_ANALYTICS_URL=http://localhost:8788/events npm run dev
+//
+// Prints every batch it receives with a per-type tally. Start it with
+// FAIL_EVERY=3 to reject every third batch and watch the client retry.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8788;
+const FAIL_EVERY = Number(process.env.FAIL_EVERY) || 0;
+
+const totals = {};
+let batches = 0;
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== "POST" || req.url !== "/events") {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    batches += 1;
+    if (FAIL_EVERY && batches % FAIL_EVERY === 0) {
+      console.log(`batch ${batches}: rejected (FAIL_EVERY=${FAIL_EVERY})`);
+      res.writeHead(503).end("mock failure");
+      return;
+    }
+
+    // Beacons arrive as text/plain - parse the body either way
+    let events;
+    try {
+      ({ events } = JSON.parse(body));
+      if (!Array.isArray(events)) throw new Error("events must be an array");
+    } catch (e) {
+      res.writeHead(400).end(e.message);
+      return;
+    }
+
+    for (const event of events) {
+      totals[event.type] = (totals[event.type] ?? 0) + 1;
+    }
+    console.log(`batch ${batches}: ${events.length} event(s)`);
+    for (const event of events) {
+      const { type, sessionId, at, ...rest } = event;
+      console.log(
+        `  ${new Date(at).toISOString()} ${sessionId?.slice(0, 8) ?? "-"} ${type}`,
+        JSON.stringify(rest),
+      );
+    }
+    console.log("  totals:", JSON.stringify(totals));
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock analytics collector on http://localhost:${PORT}/events`);
+});
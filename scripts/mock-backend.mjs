@@ -0,0 +1,74 @@
+// Local stand-in for a remote response backend.
+//
+//   npm run mock:backend
+//   VITE_RESPONSE_BACKEND_URL=http://localhost:8787/respond npm run dev
+//
+// Say "slow" to trigger the client timeout, "fail" for an HTTP 500 and
+// "dance" for a state the character doesn't have - all three should fall
+// back to the built-in matcher.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const reply = ({ utterance = "", transcript = [], memory = {} }) => {
+  const text = utterance.toLowerCase();
+  const turns = transcript.filter((entry) => entry.speaker === "user").length;
+  const name = memory.name ? `, ${memory.name}` : "";
+
+  if (text.includes("weather")) {
+    return { text: `The mock forecast says sunshine${name}!`, state: "weather" };
+  }
+  if (text.includes("dance")) {
+    return { text: "Watch me dance!", state: "dancing" };
+  }
+  if (/\b(bye|goodbye)\b/.test(text)) {
+    return { text: `See you later${name}!`, state: "goodbye" };
+  }
+  return {
+    text: `(mock backend, turn ${turns}) You said "${utterance}"${name}.`,
+    state: "response",
+  };
+};
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== "POST" || req.url !== "/respond") {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end("invalid JSON");
+      return;
+    }
+
+    const text = String(request.utterance ?? "").toLowerCase();
+    if (text.includes("fail")) {
+      res.writeHead(500).end("mock failure");
+      return;
+    }
+
+    const delay = text.includes("slow") ? 10000 : 300 + Math.random() * 700;
+    setTimeout(() => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply(request)));
+    }, delay);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock response backend on http://localhost:${PORT}/respond`);
+});
@@ -0,0 +1,60 @@
+// Local stand-in for a weather API.
+//
+//   npm run mock:weather
+//   VITE_WEATHER_URL=http://localhost:8789/weather npm run dev
+//
+// Every location gets made-up but stable weather. Say you're from "Slow"
+// to trigger the client timeout, or from "Fail" for an HTTP 500 - both
+// should fall back to the generic line. Each request is logged, so asking
+// twice shows the client cache at work.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 8789;
+const DEFAULT_LOCATION = process.env.DEFAULT_LOCATION || "Springfield";
+const CONDITIONS = ["sunny", "cloudy", "rainy", "snowy"];
+
+// Same location, same weather
+const hash = (text) =>
+  [...text.toLowerCase()].reduce(
+    (sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0,
+    7,
+  );
+
+const report = (location) => {
+  const seed = hash(location);
+  const condition = CONDITIONS[seed % CONDITIONS.length];
+  const base = { sunny: 24, cloudy: 15, rainy: 12, snowy: -4 }[condition];
+  return { location, condition, temperatureC: base + (seed % 7) };
+};
+
+let requests = 0;
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method !== "GET" || url.pathname !== "/weather") {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const location = url.searchParams.get("location") || DEFAULT_LOCATION;
+  console.log(
+    `#${++requests} ${location} (${url.searchParams.get("locale") ?? "?"})`,
+  );
+
+  if (location.toLowerCase() === "fail") {
+    res.writeHead(500).end("mock failure");
+    return;
+  }
+
+  const delay = location.toLowerCase() === "slow" ? 10000 : 200;
+  setTimeout(() => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(report(location)));
+  }, delay);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock weather API on http://localhost:${PORT}/weather`);
+});
@@ -1,40 +1,30 @@
-import { VideoPlayer } from "./components/VideoPlayer";
-import { ChatControls } from "./components/ChatControls";
-import { MicVisualizer } from "./components/MicVisualizer";
-import { Transcript } from "./components/Transcript";
-import { useSpeechRecognition } from "./hooks/useSpeechRecognition";
-import { useChatStore } from "./store/chatStore";
-import { useEffect, useState } from "react";
+import { VirtualChat } from "./components/VirtualChat";
+import { SessionHistory } from "./components/SessionHistory";
+import { ReplayControls } from "./components/ReplayControls";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { EmbedBridge } from "./components/EmbedBridge";
+import { startAnalytics } from "./analytics";
+import { useEffect } from "react";
 
-function App() {
-  // Initialize speech recognition
-  useSpeechRecognition();
-  const [isSpeechSupported, setIsSpeechSupported] = useState(true);
-
-  useEffect(() => {
-    const supported =
-      "SpeechRecognition" in window || "webkitSpeechRecognition" in window;
-    setIsSpeechSupported(supported);
-    if (!supported) console.error("Speech recognition not supported");
-  }, []);
+// QA tooling is always on in dev; add ?qa to the URL to get it in a build
+const showQaTools =
+  import.meta.env.DEV || new URLSearchParams(window.location.search).has("qa");
 
-  const { isListening } = useChatStore();
+function App() {
+  // Report analytics events to the configured sinks
+  useEffect(() => startAnalytics(), []);
 
+  // The character pack comes from VITE_CHARACTER_MANIFEST or the default pack;
+  // conversations are saved to IndexedDB. In an iframe, allowed host pages
+  // can drive the chat.
   return (
-    <div className="w-screen h-screen relative">
-      {!isSpeechSupported ? (
-        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded">
-          Your browser does not support speech recognition.
-        </div>
-      ) : (
-        <>
-          <VideoPlayer />
-
-          <MicVisualizer isListening={isListening} />
-          <Transcript />
-          <ChatControls />
-        </>
-      )}
+    <div className="w-screen h-screen">
+      <VirtualChat>
+        <EmbedBridge />
+        <SessionHistory />
+        {showQaTools && <ReplayControls />}
+        {showQaTools && <DiagnosticsPanel />}
+      </VirtualChat>
     </div>
   );
 }
@@ -0,0 +1,62 @@
+import type {
+  AnalyticsEvent,
+  AnalyticsEventBody,
+  AnalyticsSink,
+} from "../types";
+
+// ============================================
+// Typed event bus - emitters don't know which sinks are listening
+// ============================================
+
+// Where an event came from - every chat instance passes its own
+export interface AnalyticsContext {
+  sessionId: string | null;
+  // Nothing is reported while muted (e.g. during a QA replay)
+  muted: boolean;
+}
+
+export interface EventBus {
+  emit: (body: AnalyticsEventBody, context: AnalyticsContext) => void;
+  // Returns a function that removes the sink again
+  addSink: (sink: AnalyticsSink) => () => void;
+  flush: () => void;
+}
+
+export const REDACTED = "[redacted]";
+
+const redact = (event: AnalyticsEvent): AnalyticsEvent =>
+  event.type === "utterance" ? { ...event, text: REDACTED } : event;
+
+export const createEventBus = ({
+  redactTranscripts = true,
+}: { redactTranscripts?: boolean } = {}): EventBus => {
+  const sinks = new Set<AnalyticsSink>();
+
+  return {
+    emit: (body, { sessionId, muted }) => {
+      if (muted || sinks.size === 0) return;
+
+      const event: AnalyticsEvent = { ...body, at: Date.now(), sessionId };
+      const safe = redactTranscripts ? redact(event) : event;
+      for (const sink of sinks) {
+        // A broken sink must never break the conversation
+        try {
+          sink.handle(safe);
+        } catch (e) {
+          console.warn(`⚠ Analytics sink ${sink.name} failed:`, e);
+        }
+      }
+    },
+
+    addSink: (sink) => {
+      sinks.add(sink);
+      return () => {
+        sinks.delete(sink);
+        sink.flush?.();
+        sink.dispose?.();
+      };
+    },
+
+    flush: () => sinks.forEach((sink) => sink.flush?.()),
+  };
+};
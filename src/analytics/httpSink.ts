@@ -0,0 +1,85 @@
+import type { AnalyticsEvent, AnalyticsSink } from "../types";
+
+// ============================================
+// Batched POST sink. Events are sent as `{ "events": [...] }` when a batch
+// fills up, every few seconds, and with sendBeacon when the page is hidden.
+// Failed batches are put back and retried with the next one.
+// ============================================
+
+export interface HttpSinkOptions {
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // Oldest events are dropped beyond this while the endpoint is down
+  maxQueued?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_QUEUED = 500;
+
+export const createHttpSink = (
+  url: string,
+  {
+    batchSize = DEFAULT_BATCH_SIZE,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL,
+    maxQueued = DEFAULT_MAX_QUEUED,
+  }: HttpSinkOptions = {},
+): AnalyticsSink => {
+  let queue: AnalyticsEvent[] = [];
+  let inFlight = false;
+
+  const requeue = (events: AnalyticsEvent[]) => {
+    queue = [...events, ...queue].slice(-maxQueued);
+  };
+
+  const send = async () => {
+    if (inFlight || queue.length === 0) return;
+    const batch = queue.splice(0, batchSize);
+    inFlight = true;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events: batch }),
+        keepalive: true,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    } catch (e) {
+      console.warn("⚠ Analytics upload failed:", (e as Error).message);
+      requeue(batch);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  // fetch may not finish once the page is going away; a beacon will.
+  // text/plain keeps it a simple request (no CORS preflight).
+  const beacon = () => {
+    if (queue.length === 0 || !navigator.sendBeacon) return;
+    const body = new Blob([JSON.stringify({ events: queue })], {
+      type: "text/plain",
+    });
+    if (navigator.sendBeacon(url, body)) queue = [];
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") beacon();
+  };
+
+  const interval = setInterval(send, flushIntervalMs);
+  document.addEventListener("visibilitychange", onVisibilityChange);
+
+  return {
+    name: "http",
+    handle: (event) => {
+      queue.push(event);
+      if (queue.length > maxQueued) queue.shift();
+      if (queue.length >= batchSize) send();
+    },
+    flush: beacon,
+    dispose: () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import type { AnalyticsSink } from "../types";
+import { createEventBus } from "./bus";
+import { createConsoleSink, sampled } from "./sinks";
+import { createIndexedDbSink } from "./indexedDbSink";
+import { createHttpSink } from "./httpSink";
+
+export {
+  REDACTED,
+  createEventBus,
+  type AnalyticsContext,
+  type EventBus,
+} from "./bus";
+export { createConsoleSink, sampled } from "./sinks";
+export {
+  clearBufferedEvents,
+  createIndexedDbSink,
+  readBufferedEvents,
+} from "./indexedDbSink";
+export { createHttpSink } from "./httpSink";
+
+// Raw utterances stay on the device unless VITE_ANALYTICS_TRANSCRIPTS=true
+export const analytics = createEventBus({
+  redactTranscripts: import.meta.env.VITE_ANALYTICS_TRANSCRIPTS !== "true",
+});
+
+// VITE_ANALYTICS_SINKS is a comma-separated list of "console", "indexeddb"
+// and "http" (console only in dev by default). Setting VITE_ANALYTICS_URL
+// adds "http"; VITE_ANALYTICS_SAMPLE_RATE (0-1) samples it by session.
+const configuredSinks = (): AnalyticsSink[] => {
+  const names = new Set(
+    (
+      import.meta.env.VITE_ANALYTICS_SINKS ??
+      (import.meta.env.DEV ? "console" : "")
+    )
+      .split(",")
+      .map((name: string) => name.trim())
+      .filter(Boolean),
+  );
+  const url: string | undefined = import.meta.env.VITE_ANALYTICS_URL;
+  if (url) names.add("http");
+
+  const sinks: AnalyticsSink[] = [];
+  for (const name of names) {
+    switch (name) {
+      case "console":
+        sinks.push(createConsoleSink());
+        break;
+      case "indexeddb":
+        sinks.push(createIndexedDbSink());
+        break;
+      case "http": {
+        if (!url) {
+          console.warn("⚠ Analytics sink http needs VITE_ANALYTICS_URL");
+          break;
+        }
+        const rate = Number(import.meta.env.VITE_ANALYTICS_SAMPLE_RATE ?? 1);
+        sinks.push(
+          sampled(createHttpSink(url), Number.isFinite(rate) ? rate : 1),
+        );
+        break;
+      }
+      default:
+        console.warn(`⚠ Unknown analytics sink "${name}"`);
+    }
+  }
+  return sinks;
+};
+
+// Attach the configured sinks. Returns a function that detaches (and
+// flushes) them again.
+export const startAnalytics = () => {
+  const removers = configuredSinks().map(analytics.addSink);
+  return () => removers.forEach((remove) => remove());
+};
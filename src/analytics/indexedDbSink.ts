@@ -0,0 +1,59 @@
+import type { AnalyticsEvent, AnalyticsSink } from "../types";
+import { ANALYTICS_STORE, requestToPromise, withStore } from "../sessions/db";
+
+// ============================================
+// IndexedDB buffer - keeps the most recent events on the device, e.g. to
+// attach to a bug report or inspect without a backend
+// ============================================
+
+const DEFAULT_MAX_EVENTS = 1000;
+
+export const createIndexedDbSink = (
+  maxEvents = DEFAULT_MAX_EVENTS,
+): AnalyticsSink => {
+  // Writes are chained so trimming never races an insert
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const append = (event: AnalyticsEvent) =>
+    withStore(ANALYTICS_STORE, "readwrite", async (store) => {
+      store.add(event);
+      const count = await requestToPromise(store.count());
+      if (count <= maxEvents) return;
+
+      // Keys are auto-incremented, so the oldest come first
+      const cursorRequest = store.openCursor();
+      let excess = count - maxEvents;
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess === 0) return resolve();
+          cursor.delete();
+          excess -= 1;
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+    });
+
+  return {
+    name: "indexeddb",
+    handle: (event) => {
+      queue = queue
+        .then(() => append(event))
+        .catch((e) =>
+          console.warn("⚠ Couldn't buffer analytics event:", e.message),
+        );
+    },
+  };
+};
+
+// Oldest first
+export const readBufferedEvents = () =>
+  withStore(ANALYTICS_STORE, "readonly", (store) =>
+    requestToPromise(store.getAll() as IDBRequest<AnalyticsEvent[]>),
+  );
+
+export const clearBufferedEvents = () =>
+  withStore(ANALYTICS_STORE, "readwrite", (store) =>
+    requestToPromise(store.clear()),
+  );
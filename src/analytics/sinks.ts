@@ -0,0 +1,36 @@
+import type { AnalyticsEvent, AnalyticsSink } from "../types";
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  name: "console",
+  handle: (event) => console.debug(`📊 ${event.type}`, event),
+});
+
+// Pass `rate` (0-1) of the traffic through to `sink`. The decision is made
+// once per session so sampled sessions stay complete - a chatEnded without
+// its chatStarted is useless for funnels.
+export const sampled = (
+  sink: AnalyticsSink,
+  rate: number,
+  random: () => number = Math.random,
+): AnalyticsSink => {
+  if (rate >= 1) return sink;
+  const decisions = new Map<string, boolean>();
+
+  const keep = (event: AnalyticsEvent) => {
+    if (!event.sessionId) return random() < rate;
+    let decision = decisions.get(event.sessionId);
+    if (decision === undefined) {
+      decision = random() < rate;
+      decisions.set(event.sessionId, decision);
+    }
+    return decision;
+  };
+
+  return {
+    ...sink,
+    name: `${sink.name}@${rate}`,
+    handle: (event) => {
+      if (keep(event)) sink.handle(event);
+    },
+  };
+};
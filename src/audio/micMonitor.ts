@@ -0,0 +1,74 @@
+import { createVoiceDetector } from "./voiceActivity";
+import { audioConstraints } from "../input/microphone";
+
+// ============================================
+// Microphone monitor - a Web Audio AnalyserNode on the mic stream that
+// drives the level meter and voice activity detection
+// ============================================
+
+const SAMPLE_INTERVAL = 50;
+const FFT_SIZE = 256;
+
+export interface MicMonitorHandlers {
+  onVoiceStart: () => void;
+  onVoiceEnd: () => void;
+}
+
+export interface MicMonitor {
+  // Frequency bins for the level meter, 0-255 each
+  binCount: number;
+  readFrequencies: (into: Uint8Array<ArrayBuffer>) => void;
+  isVoiceActive: () => boolean;
+  stop: () => void;
+}
+
+export const isMicMonitorSupported = () =>
+  typeof window !== "undefined" &&
+  "AudioContext" in window &&
+  !!navigator.mediaDevices?.getUserMedia;
+
+// Root mean square of the waveform, 0 (silence) to 1 (full scale)
+const rms = (samples: Float32Array) => {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / samples.length);
+};
+
+export const createMicMonitor = async (
+  handlers: MicMonitorHandlers,
+  deviceId: string | null = null,
+): Promise<MicMonitor> => {
+  const stream = await navigator.mediaDevices.getUserMedia(
+    audioConstraints(deviceId),
+  );
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.6;
+  const source = context.createMediaStreamSource(stream);
+  source.connect(analyser);
+
+  const detector = createVoiceDetector();
+  const samples = new Float32Array(analyser.fftSize);
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const wasActive = detector.isActive();
+    const isActive = detector.update(rms(samples), performance.now());
+
+    if (isActive && !wasActive) handlers.onVoiceStart();
+    if (!isActive && wasActive) handlers.onVoiceEnd();
+  }, SAMPLE_INTERVAL);
+
+  return {
+    binCount: analyser.frequencyBinCount,
+    readFrequencies: (into) => analyser.getByteFrequencyData(into),
+    isVoiceActive: detector.isActive,
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      stream.getTracks().forEach((track) => track.stop());
+      context.close().catch(() => {});
+    },
+  };
+};
@@ -0,0 +1,66 @@
+// ============================================
+// Voice activity detection - pure, fed one level reading at a time.
+// Speech has to be louder than the room (an adaptive noise floor) for a
+// moment before it counts, and quiet for a while before it stops counting,
+// so breaths between words don't end the utterance.
+// ============================================
+
+export interface VoiceDetectorOptions {
+  // RMS level (0-1) that is never treated as speech, however quiet the room
+  minLevel: number;
+  // Speech must be this many times louder than the noise floor
+  noiseRatio: number;
+  // How long energy must stay above the threshold to start speech
+  attackMs: number;
+  // How long it must stay below it to end speech
+  releaseMs: number;
+}
+
+export const DEFAULT_VOICE_DETECTOR: VoiceDetectorOptions = {
+  minLevel: 0.01,
+  noiseRatio: 3,
+  attackMs: 120,
+  releaseMs: 700,
+};
+
+// Weight of each new reading in the noise floor average
+const NOISE_SMOOTHING = 0.05;
+
+export const createVoiceDetector = (
+  options: VoiceDetectorOptions = DEFAULT_VOICE_DETECTOR,
+) => {
+  let noiseFloor: number | null = null;
+  let active = false;
+  let aboveSince: number | null = null;
+  let belowSince: number | null = null;
+
+  return {
+    // Returns whether the user is speaking after this reading
+    update: (level: number, now: number): boolean => {
+      // Nobody is talking the moment the mic opens
+      noiseFloor ??= level;
+      const threshold = Math.max(
+        options.minLevel,
+        noiseFloor * options.noiseRatio,
+      );
+
+      if (level >= threshold) {
+        belowSince = null;
+        aboveSince ??= now;
+        if (!active && now - aboveSince >= options.attackMs) active = true;
+      } else {
+        aboveSince = null;
+        belowSince ??= now;
+        if (active && now - belowSince >= options.releaseMs) active = false;
+      }
+
+      // Only learn the room while nobody is talking
+      if (!active) {
+        noiseFloor += (level - noiseFloor) * NOISE_SMOOTHING;
+      }
+      return active;
+    },
+
+    isActive: () => active,
+  };
+};
@@ -0,0 +1,31 @@
+import type { BackendReply, ResponseBackend } from "../types";
+
+export class BackendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackendError";
+  }
+}
+
+// POSTs the request as JSON and expects `{ text, state }` back
+export const createHttpBackend = (url: string): ResponseBackend => ({
+  name: `http:${url}`,
+
+  respond: async (request, signal) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal,
+    });
+    if (!res.ok) {
+      throw new BackendError(`${url} responded with HTTP ${res.status}`);
+    }
+
+    const body = (await res.json()) as Partial<BackendReply> | null;
+    if (typeof body?.text !== "string" || typeof body.state !== "string") {
+      throw new BackendError(`${url} returned an invalid reply`);
+    }
+    return { text: body.text, state: body.state };
+  },
+});
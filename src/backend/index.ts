@@ -0,0 +1,40 @@
+import type { BackendReply, BackendRequest, ResponseBackend } from "../types";
+import { BackendError, createHttpBackend } from "./httpBackend";
+
+export { BackendError, createHttpBackend } from "./httpBackend";
+
+const DEFAULT_TIMEOUT = 4000;
+
+// VITE_RESPONSE_BACKEND_URL turns the remote backend on; without it the app
+// only uses the built-in intent matcher.
+const backendUrl: string | undefined = import.meta.env
+  .VITE_RESPONSE_BACKEND_URL;
+
+export const backendTimeout =
+  Number(import.meta.env.VITE_RESPONSE_BACKEND_TIMEOUT_MS) || DEFAULT_TIMEOUT;
+
+export const responseBackend: ResponseBackend | null = backendUrl
+  ? createHttpBackend(backendUrl)
+  : null;
+
+// Ask the backend, giving up after `timeoutMs`. Rejects on timeout, network
+// or protocol errors - callers fall back to the local matcher.
+export const requestReply = async (
+  backend: ResponseBackend,
+  request: BackendRequest,
+  timeoutMs = backendTimeout,
+): Promise<BackendReply> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await backend.respond(request, controller.signal);
+  } catch (e) {
+    if (controller.signal.aborted) {
+      throw new BackendError(`${backend.name} timed out after ${timeoutMs}ms`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,504 @@
+import type {
+  CharacterManifest,
+  CharacterStateDefinition,
+  ClipSegment,
+  ClipTransition,
+  InactivityStep,
+  Locale,
+  OnEndAction,
+  SpriteSheet,
+  VideoState,
+} from "../types";
+import { isLocale } from "../i18n";
+import { SYSTEM_RESPONSE_KEYS } from "../intents/matcher";
+
+// ============================================
+// Character pack manifest - parsing and validation
+// ============================================
+
+export const MANIFEST_VERSION = 1;
+
+export const DEFAULT_MANIFEST_URL =
+  import.meta.env.VITE_CHARACTER_MANIFEST ??
+  "/characters/default/manifest.json";
+
+// States the conversation logic drives directly. Every character needs them;
+// anything else in the manifest is reachable through intents.
+export const CORE_STATES: VideoState[] = [
+  "idle",
+  "greeting",
+  "listening",
+  "response",
+  "fallback",
+  "prompt",
+  "goodbye",
+];
+
+export class ManifestError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(
+      `Invalid character manifest (${source}):\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`,
+    );
+    this.name = "ManifestError";
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const validateOnEnd = (
+  path: string,
+  value: unknown,
+  stateNames: Set<string>,
+  issues: string[],
+): OnEndAction | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  if (value.type === "transition") {
+    if (!isNonEmptyString(value.to) || !stateNames.has(value.to)) {
+      issues.push(`${path}.to must name a declared state`);
+      return undefined;
+    }
+    return { type: "transition", to: value.to };
+  }
+
+  if (value.type === "reset") {
+    if (
+      value.delayMs !== undefined &&
+      (typeof value.delayMs !== "number" || value.delayMs < 0)
+    ) {
+      issues.push(`${path}.delayMs must be a non-negative number`);
+      return undefined;
+    }
+    return { type: "reset", delayMs: value.delayMs as number | undefined };
+  }
+
+  issues.push(`${path}.type must be "transition" or "reset"`);
+  return undefined;
+};
+
+const validateSrcByLocale = (
+  path: string,
+  value: unknown,
+  issues: string[],
+): Partial<Record<Locale, string>> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  const srcByLocale: Partial<Record<Locale, string>> = {};
+  for (const [locale, src] of Object.entries(value)) {
+    if (!isLocale(locale)) {
+      issues.push(`${path}.${locale} is not a supported locale`);
+    } else if (!isNonEmptyString(src)) {
+      issues.push(`${path}.${locale} must be a non-empty string`);
+    } else {
+      srcByLocale[locale] = src;
+    }
+  }
+  return srcByLocale;
+};
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const validateSegment = (
+  path: string,
+  value: unknown,
+  spriteIds: Set<string>,
+  issues: string[],
+): ClipSegment | undefined => {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  const before = issues.length;
+  if (!isNonEmptyString(value.sprite) || !spriteIds.has(value.sprite)) {
+    issues.push(`${path}.sprite must name a declared sprite`);
+  }
+  if (!isNonNegativeNumber(value.start)) {
+    issues.push(`${path}.start must be a non-negative number of seconds`);
+  }
+  if (!isNonNegativeNumber(value.end)) {
+    issues.push(`${path}.end must be a non-negative number of seconds`);
+  } else if (isNonNegativeNumber(value.start) && value.end <= value.start) {
+    issues.push(`${path}.end must be after start`);
+  }
+  if (issues.length > before) return undefined;
+
+  return {
+    sprite: value.sprite as string,
+    start: value.start as number,
+    end: value.end as number,
+  };
+};
+
+// `spriteIds` is null for a per-file pack: every state has its own `src`.
+// In a sprite pack every state plays a `segment` of a sprite instead.
+const validateState = (
+  name: string,
+  value: unknown,
+  stateNames: Set<string>,
+  spriteIds: Set<string> | null,
+  issues: string[],
+): CharacterStateDefinition | null => {
+  const path = `states.${name}`;
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  let segment: ClipSegment | undefined;
+  if (spriteIds) {
+    if (value.src !== undefined || value.srcByLocale !== undefined) {
+      issues.push(`${path} plays a segment - set src on its sprite instead`);
+    }
+    segment = validateSegment(
+      `${path}.segment`,
+      value.segment,
+      spriteIds,
+      issues,
+    );
+  } else {
+    if (!isNonEmptyString(value.src)) {
+      issues.push(`${path}.src must be a non-empty string`);
+    }
+    if (value.segment !== undefined) {
+      issues.push(`${path}.segment needs a top-level "sprites" object`);
+    }
+  }
+  for (const flag of ["loop", "muted", "blocking", "interruptible"] as const) {
+    if (value[flag] !== undefined && typeof value[flag] !== "boolean") {
+      issues.push(`${path}.${flag} must be a boolean`);
+    }
+  }
+
+  const srcByLocale = spriteIds
+    ? undefined
+    : validateSrcByLocale(`${path}.srcByLocale`, value.srcByLocale, issues);
+
+  let fallbacks: VideoState[] | undefined;
+  if (value.fallbacks !== undefined) {
+    if (!Array.isArray(value.fallbacks)) {
+      issues.push(`${path}.fallbacks must be an array of state names`);
+    } else {
+      fallbacks = [];
+      value.fallbacks.forEach((fallback, i) => {
+        if (!isNonEmptyString(fallback) || !stateNames.has(fallback)) {
+          issues.push(`${path}.fallbacks[${i}] must name a declared state`);
+        } else if (fallback === name) {
+          issues.push(`${path}.fallbacks[${i}] cannot point at itself`);
+        } else {
+          fallbacks!.push(fallback);
+        }
+      });
+    }
+  }
+
+  const onEnd = validateOnEnd(`${path}.onEnd`, value.onEnd, stateNames, issues);
+  if (value.loop === true && onEnd) {
+    issues.push(`${path}.onEnd is never reached on a looping state`);
+  }
+
+  let boundaries: number[] | undefined;
+  if (value.boundaries !== undefined) {
+    const length = segment && segment.end - segment.start;
+    if (
+      !Array.isArray(value.boundaries) ||
+      !value.boundaries.every(isNonNegativeNumber)
+    ) {
+      issues.push(`${path}.boundaries must be an array of seconds`);
+    } else if (length && value.boundaries.some((time) => time >= length)) {
+      issues.push(`${path}.boundaries must fall inside the segment`);
+    } else {
+      boundaries = value.boundaries;
+    }
+  }
+
+  return {
+    src: value.src as string | undefined,
+    srcByLocale,
+    segment,
+    loop: value.loop as boolean | undefined,
+    muted: value.muted as boolean | undefined,
+    blocking: value.blocking as boolean | undefined,
+    interruptible: value.interruptible as boolean | undefined,
+    fallbacks,
+    onEnd,
+    boundaries,
+  };
+};
+
+const validateClipTransition = (
+  path: string,
+  value: unknown,
+  states: Record<VideoState, CharacterStateDefinition>,
+  issues: string[],
+): ClipTransition | null => {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const before = issues.length;
+  for (const end of ["from", "to"] as const) {
+    const state = value[end];
+    if (state !== "*" && (!isNonEmptyString(state) || !states[state])) {
+      issues.push(`${path}.${end} must name a declared state or be "*"`);
+    }
+  }
+  for (const key of ["crossfadeMs", "maxWaitMs"] as const) {
+    if (value[key] !== undefined && !isNonNegativeNumber(value[key])) {
+      issues.push(`${path}.${key} must be a non-negative number`);
+    }
+  }
+  if (
+    value.waitForBoundary !== undefined &&
+    typeof value.waitForBoundary !== "boolean"
+  ) {
+    issues.push(`${path}.waitForBoundary must be a boolean`);
+  }
+  if (value.via !== undefined) {
+    if (!isNonEmptyString(value.via) || !states[value.via]) {
+      issues.push(`${path}.via must name a declared state`);
+    } else if (states[value.via].loop) {
+      issues.push(`${path}.via must not loop - a bridge has to end`);
+    }
+  }
+  if (issues.length > before) return null;
+
+  return {
+    from: value.from as VideoState,
+    to: value.to as VideoState,
+    crossfadeMs: value.crossfadeMs as number | undefined,
+    waitForBoundary: value.waitForBoundary as boolean | undefined,
+    maxWaitMs: value.maxWaitMs as number | undefined,
+    via: value.via as VideoState | undefined,
+  };
+};
+
+// Rungs fire in order, so each one has to come later than the last, and
+// nothing can follow a goodbye
+const validateInactivityLadder = (
+  value: unknown,
+  issues: string[],
+): InactivityStep[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push("inactivityLadder must be an array with at least one step");
+    return undefined;
+  }
+
+  const before = issues.length;
+  const ladder: InactivityStep[] = [];
+  let previousMs = 0;
+  value.forEach((step: unknown, i) => {
+    const path = `inactivityLadder[${i}]`;
+    if (!isRecord(step)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    if (!isNonNegativeNumber(step.afterMs) || step.afterMs <= previousMs) {
+      issues.push(
+        `${path}.afterMs must be a number of ms later than the step before`,
+      );
+    } else {
+      previousMs = step.afterMs;
+    }
+    if (step.action !== "prompt" && step.action !== "goodbye") {
+      issues.push(`${path}.action must be "prompt" or "goodbye"`);
+    } else if (step.action === "goodbye" && i < value.length - 1) {
+      issues.push(`${path} is a goodbye, so it must be the last step`);
+    }
+    if (!SYSTEM_RESPONSE_KEYS.some((key) => key === step.response)) {
+      issues.push(
+        `${path}.response must be one of ${SYSTEM_RESPONSE_KEYS.join(", ")}`,
+      );
+    }
+    ladder.push({
+      afterMs: step.afterMs as number,
+      action: step.action as InactivityStep["action"],
+      response: step.response as InactivityStep["response"],
+    });
+  });
+  if (issues.length > before) return undefined;
+
+  return ladder;
+};
+
+// Validate an untrusted JSON value. Collects every problem before throwing so
+// content authors can fix a manifest in one pass.
+export const parseManifest = (
+  raw: unknown,
+  source = "manifest",
+): CharacterManifest => {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new ManifestError(source, ["manifest must be a JSON object"]);
+  }
+
+  if (raw.manifestVersion !== MANIFEST_VERSION) {
+    throw new ManifestError(source, [
+      `unsupported manifestVersion ${JSON.stringify(
+        raw.manifestVersion,
+      )} (expected ${MANIFEST_VERSION})`,
+    ]);
+  }
+
+  if (!isNonEmptyString(raw.id)) issues.push("id must be a non-empty string");
+  if (!isNonEmptyString(raw.name)) {
+    issues.push("name must be a non-empty string");
+  }
+
+  if (!isRecord(raw.states) || Object.keys(raw.states).length === 0) {
+    throw new ManifestError(source, [
+      ...issues,
+      "states must be an object with at least one state",
+    ]);
+  }
+
+  // Sprite packs: a few files, each state a segment of one of them
+  let sprites: Record<string, SpriteSheet> | undefined;
+  if (raw.sprites !== undefined) {
+    sprites = {};
+    if (!isRecord(raw.sprites) || Object.keys(raw.sprites).length === 0) {
+      issues.push("sprites must be an object with at least one sprite");
+    } else {
+      for (const [id, value] of Object.entries(raw.sprites)) {
+        if (!isRecord(value) || !isNonEmptyString(value.src)) {
+          issues.push(`sprites.${id}.src must be a non-empty string`);
+          continue;
+        }
+        sprites[id] = {
+          src: value.src,
+          srcByLocale: validateSrcByLocale(
+            `sprites.${id}.srcByLocale`,
+            value.srcByLocale,
+            issues,
+          ),
+        };
+      }
+    }
+  }
+  const spriteIds = sprites ? new Set(Object.keys(sprites)) : null;
+
+  const stateNames = new Set(Object.keys(raw.states));
+  const states: Record<VideoState, CharacterStateDefinition> = {};
+  for (const [name, value] of Object.entries(raw.states)) {
+    const state = validateState(name, value, stateNames, spriteIds, issues);
+    if (state) states[name] = state;
+  }
+
+  let clipTransitions: ClipTransition[] | undefined;
+  if (raw.clipTransitions !== undefined) {
+    if (!Array.isArray(raw.clipTransitions)) {
+      issues.push("clipTransitions must be an array");
+    } else {
+      clipTransitions = [];
+      raw.clipTransitions.forEach((value, i) => {
+        const rule = validateClipTransition(
+          `clipTransitions[${i}]`,
+          value,
+          states,
+          issues,
+        );
+        if (rule) clipTransitions!.push(rule);
+      });
+    }
+  }
+
+  const inactivityLadder =
+    raw.inactivityLadder === undefined
+      ? undefined
+      : validateInactivityLadder(raw.inactivityLadder, issues);
+
+  for (const core of CORE_STATES) {
+    if (!stateNames.has(core)) {
+      issues.push(`states.${core} is required`);
+    }
+  }
+
+  for (const key of ["initialState", "startState", "endState"] as const) {
+    if (!isNonEmptyString(raw[key]) || !stateNames.has(raw[key])) {
+      issues.push(`${key} must name a declared state`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ManifestError(source, issues);
+  }
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    id: raw.id as string,
+    name: raw.name as string,
+    initialState: raw.initialState as VideoState,
+    startState: raw.startState as VideoState,
+    endState: raw.endState as VideoState,
+    ...(sprites && { sprites }),
+    states,
+    ...(clipTransitions && { clipTransitions }),
+    ...(inactivityLadder && { inactivityLadder }),
+  };
+};
+
+export const loadManifest = async (
+  url: string = DEFAULT_MANIFEST_URL,
+): Promise<CharacterManifest> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new ManifestError(url, [`request failed with HTTP ${res.status}`]);
+  }
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch {
+    throw new ManifestError(url, ["response is not valid JSON"]);
+  }
+
+  return parseManifest(json, url);
+};
+
+// Walk the fallback chain until we find a clip that loaded. Falls back to the
+// initial state when nothing in the chain is playable.
+export const resolveEffectiveState = (
+  manifest: CharacterManifest,
+  state: VideoState,
+  failed: Set<VideoState>,
+): VideoState => {
+  const visited = new Set<VideoState>();
+  const queue: VideoState[] = [state];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    if (!failed.has(current) && manifest.states[current]) return current;
+    queue.push(...(manifest.states[current]?.fallbacks ?? []));
+  }
+
+  return manifest.initialState;
+};
+
+// The file for a clip or sprite in the given locale, or the default one
+export const clipSrc = (
+  definition: { src: string; srcByLocale?: Partial<Record<Locale, string>> },
+  locale: Locale,
+) => definition.srcByLocale?.[locale] ?? definition.src;
@@ -1,25 +1,179 @@
-import { useChatStore } from "../store/chatStore";
+import { useState, type FormEvent } from "react";
+import { useChatStore } from "../store/chatContext";
+import { isSpeechSupported } from "../input";
+import { LOCALES, isLocale } from "../i18n";
+import { useTranslation } from "../hooks/useTranslation";
+import { TalkButton } from "./TalkButton";
+import { scenariosFor } from "../scenarios";
 
-export const ChatControls = () => {
-  const { isActive, startChat, endChat } = useChatStore();
+interface ChatControlsProps {
+  onSubmitText: (text: string) => void;
+}
+
+export const ChatControls = ({ onSubmitText }: ChatControlsProps) => {
+  const {
+    isActive,
+    startChat,
+    endChat,
+    character,
+    inputMode,
+    setInputMode,
+    listeningMode,
+    setListeningMode,
+    continuousListening,
+    setContinuousListening,
+    locale,
+    setLocale,
+    scenarioId,
+    setScenario,
+    isListening,
+    isReplaying,
+  } = useChatStore();
+  const scenarios = scenariosFor(locale);
+  const t = useTranslation();
+  const [draft, setDraft] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSubmitText(draft);
+    setDraft("");
+  };
 
   return (
-    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex gap-4 z-30">
-      {!isActive ? (
+    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex flex-col items-center gap-3 z-30">
+      <div className="flex gap-4">
+        {!isActive ? (
+          <button
+            onClick={startChat}
+            disabled={!character || isReplaying}
+            className="px-8 py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg font-semibold text-lg transition-colors shadow-lg"
+          >
+            {t("startChat")}
+          </button>
+        ) : (
+          <button
+            onClick={() => endChat()}
+            disabled={isReplaying}
+            className="px-8 py-4 bg-red-600 hover:bg-red-700 disabled:opacity-50 rounded-lg font-semibold text-lg transition-colors shadow-lg"
+          >
+            {t("endChat")}
+          </button>
+        )}
+      </div>
+
+      {/* Push-to-talk */}
+      {isActive &&
+        inputMode === "speech" &&
+        listeningMode === "pushToTalk" &&
+        !isReplaying && <TalkButton />}
+
+      {/* Typed chat box */}
+      {isActive && inputMode === "text" && !isReplaying && (
+        <form onSubmit={handleSubmit} className="flex gap-2 w-80">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={!isListening}
+            placeholder={isListening ? t("typeMessage") : t("pleaseWait")}
+            className="flex-1 px-3 py-2 rounded-lg bg-black/70 backdrop-blur text-sm text-white placeholder-gray-400 disabled:opacity-50"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!isListening || !draft.trim()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-sm font-semibold"
+          >
+            {t("send")}
+          </button>
+        </form>
+      )}
+
+      {/* Input mode switch */}
+      {!isActive && inputMode !== "scripted" && (
         <button
-          onClick={startChat}
-          className="px-8 py-4 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold text-lg transition-colors shadow-lg"
+          onClick={() =>
+            setInputMode(inputMode === "speech" ? "text" : "speech")
+          }
+          disabled={inputMode === "text" && !isSpeechSupported()}
+          className="text-xs text-gray-400 hover:text-white disabled:hover:text-gray-400"
         >
-          Start Chat
+          {inputMode === "speech"
+            ? t("typeInstead")
+            : isSpeechSupported()
+              ? t("useMicrophone")
+              : t("speechUnsupported")}
         </button>
-      ) : (
+      )}
+
+      {/* Listening mode - hands-free or push-to-talk, picked per chat */}
+      {!isActive && inputMode === "speech" && (
         <button
-          onClick={endChat}
-          className="px-8 py-4 bg-red-600 hover:bg-red-700 rounded-lg font-semibold text-lg transition-colors shadow-lg"
+          onClick={() =>
+            setListeningMode(
+              listeningMode === "pushToTalk" ? "handsFree" : "pushToTalk",
+            )
+          }
+          disabled={isReplaying}
+          className="text-xs text-gray-400 hover:text-white disabled:hover:text-gray-400"
         >
-          End Chat
+          {listeningMode === "pushToTalk"
+            ? t("useHandsFree")
+            : t("usePushToTalk")}
         </button>
       )}
+
+      {/* Continuous recognition - live captions and barge-in, per chat too */}
+      {!isActive && inputMode === "speech" && (
+        <button
+          onClick={() => setContinuousListening(!continuousListening)}
+          disabled={isReplaying}
+          className="text-xs text-gray-400 hover:text-white disabled:hover:text-gray-400"
+        >
+          {continuousListening ? t("useSingleUtterance") : t("useContinuous")}
+        </button>
+      )}
+
+      {/* Guided scenario - also picked before the chat starts */}
+      {!isActive && scenarios.length > 0 && (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          {t("scenario")}
+          <select
+            value={scenarioId ?? ""}
+            onChange={(e) => setScenario(e.target.value || null)}
+            disabled={isReplaying}
+            className="bg-black/70 backdrop-blur rounded px-2 py-1 text-white"
+          >
+            <option value="">{t("freeConversation")}</option>
+            {scenarios.map(({ definition }) => (
+              <option key={definition.id} value={definition.id}>
+                {definition.title}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {/* Language - picked before the chat starts */}
+      {!isActive && (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          {t("language")}
+          <select
+            value={locale}
+            onChange={(e) => {
+              if (isLocale(e.target.value)) setLocale(e.target.value);
+            }}
+            disabled={isReplaying}
+            className="bg-black/70 backdrop-blur rounded px-2 py-1 text-white"
+          >
+            {Object.entries(LOCALES).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
     </div>
   );
 };
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useChatInstance, useChatStore } from "../store/chatContext";
+import type {
+  DiagnosticsProbes,
+  InputDiagnostics,
+  VideoDiagnostics,
+} from "../diagnostics/probes";
+
+const REFRESH_INTERVAL = 200;
+const HISTORY_SHOWN = 8;
+const TOGGLE_KEY = "`";
+
+const formatSeconds = (ms: number | undefined) =>
+  ms === undefined ? "-" : `${(ms / 1000).toFixed(1)}s`;
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString(undefined, { hour12: false });
+
+const STATUS_COLORS: Record<string, string> = {
+  loaded: "text-green-400",
+  loading: "text-blue-400",
+  retrying: "text-yellow-400",
+  failed: "text-red-400",
+  evicted: "text-gray-500",
+};
+
+interface Snapshot {
+  input?: InputDiagnostics;
+  video?: VideoDiagnostics;
+}
+
+const readProbes = (probes: DiagnosticsProbes): Snapshot => ({
+  input: probes.input?.(),
+  video: probes.video?.(),
+});
+
+// Developer overlay - press ` to toggle, or open the app with ?diagnostics
+export const DiagnosticsPanel = () => {
+  const { diagnosticsProbes } = useChatInstance();
+  const {
+    currentState,
+    transitionHistory,
+    isCharacterSpeaking,
+    isListening,
+    listeningEnabled,
+    inputIssue,
+  } = useChatStore();
+  const [isOpen, setIsOpen] = useState(() =>
+    new URLSearchParams(window.location.search).has("diagnostics"),
+  );
+  const [snapshot, setSnapshot] = useState<Snapshot>({});
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== TOGGLE_KEY) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      setIsOpen((open) => !open);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
+
+  // Timers and playback positions change without a re-render - poll them
+  useEffect(() => {
+    if (!isOpen) return;
+    const interval = setInterval(
+      () => setSnapshot(readProbes(diagnosticsProbes)),
+      REFRESH_INTERVAL,
+    );
+    return () => clearInterval(interval);
+  }, [isOpen, diagnosticsProbes]);
+
+  if (!isOpen) return null;
+
+  const { input, video } = snapshot;
+  const effectiveState = video?.effectiveState ?? currentState;
+  const recent = transitionHistory.slice(-HISTORY_SHOWN).reverse();
+
+  return (
+    <div className="absolute top-20 right-8 w-80 max-h-[70vh] overflow-y-auto bg-black/85 backdrop-blur rounded-lg p-3 text-xs font-mono space-y-3 z-40">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-gray-300">Diagnostics</span>
+        <button
+          onClick={() => setIsOpen(false)}
+          aria-label="Close diagnostics"
+          className="text-gray-400 hover:text-white"
+        >
+          ✕
+        </button>
+      </div>
+
+      <section>
+        <p>
+          state: {currentState}
+          {effectiveState !== currentState && (
+            <span className="text-yellow-400"> → {effectiveState}</span>
+          )}
+        </p>
+        <p>
+          characterSpeaking: {String(isCharacterSpeaking)} · listening:{" "}
+          {String(isListening)}
+        </p>
+        <p>listeningEnabled: {String(listeningEnabled)}</p>
+      </section>
+
+      <section>
+        <p className="text-gray-400">recognizer</p>
+        {input ? (
+          <>
+            <p>
+              {input.mode} ·{" "}
+              <span
+                className={input.isRunning ? "text-green-400" : "text-gray-500"}
+              >
+                {input.isRunning ? "running" : "stopped"}
+              </span>
+              {input.retries > 0 && ` · retry ${input.retries}`}
+            </p>
+            {inputIssue && (
+              <p className="text-red-400">
+                issue: {inputIssue.kind} ({inputIssue.error})
+              </p>
+            )}
+            <p>
+              silence {formatSeconds(input.timers.silence)} (rung{" "}
+              {input.inactivityStep}) · restart{" "}
+              {formatSeconds(input.timers.restart)} · cooldown{" "}
+              {formatSeconds(input.timers.listenStart)}
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-500">not mounted</p>
+        )}
+      </section>
+
+      <section>
+        <p className="text-gray-400">
+          clips
+          {video &&
+            ` · ~${Math.round(video.usedBytes / (1024 * 1024))}MB decoded`}
+        </p>
+        {video?.clips.map((clip) => (
+          <p key={clip.state} className="flex justify-between gap-2">
+            <span className={clip.isPlaying ? "text-white" : "text-gray-400"}>
+              {clip.isPlaying ? "▶ " : ""}
+              {clip.state}
+            </span>
+            <span className={STATUS_COLORS[clip.status] ?? "text-gray-500"}>
+              {clip.status}
+            </span>
+            <span className="text-gray-400">
+              {clip.position.toFixed(1)}/{clip.duration.toFixed(1)}s
+            </span>
+          </p>
+        ))}
+      </section>
+
+      <section>
+        <p className="text-gray-400">transitions</p>
+        {recent.length === 0 && <p className="text-gray-500">none yet</p>}
+        {recent.map((record, i) => (
+          <p
+            key={`${record.at}-${i}`}
+            className={record.accepted ? "" : "text-red-400"}
+            title={record.reason}
+          >
+            {formatTime(record.at)} {record.from}→{record.to}{" "}
+            <span className="text-gray-500">{record.source}</span>
+          </p>
+        ))}
+      </section>
+    </div>
+  );
+};
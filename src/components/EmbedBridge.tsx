@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useChatInstance } from "../store/chatContext";
+import { createEmbedBridge, getAllowedOrigins } from "../embed";
+
+interface EmbedBridgeProps {
+  // Host origins allowed to send commands (default: VITE_EMBED_ALLOWED_ORIGINS)
+  allowedOrigins?: string[];
+}
+
+// Opens the postMessage API to the host page when the chat runs in an
+// iframe (see src/embed/). Renders nothing.
+export const EmbedBridge = ({ allowedOrigins }: EmbedBridgeProps) => {
+  const instance = useChatInstance();
+  // Compared by value, so an inline array doesn't restart the bridge
+  const origins = (allowedOrigins ?? getAllowedOrigins()).join(",");
+
+  useEffect(() => {
+    if (window.parent === window || !origins) return;
+    return createEmbedBridge({
+      instance,
+      allowedOrigins: origins.split(","),
+      host: window.parent,
+    });
+  }, [instance, origins]);
+
+  return null;
+};
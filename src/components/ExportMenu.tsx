@@ -0,0 +1,39 @@
+import type { ChatSession } from "../types";
+import { downloadSession, type ExportFormat } from "../sessions/exportFormats";
+import { useTranslation } from "../hooks/useTranslation";
+
+const OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "markdown", label: "Markdown" },
+  { format: "srt", label: "SRT" },
+  { format: "vtt", label: "WebVTT" },
+];
+
+interface ExportMenuProps {
+  // Resolved lazily so the live transcript is exported as of the click
+  getSession: () => ChatSession | null;
+}
+
+export const ExportMenu = ({ getSession }: ExportMenuProps) => {
+  const t = useTranslation();
+
+  const handleExport = (format: ExportFormat) => {
+    const session = getSession();
+    if (session) downloadSession(session, format);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+      <span>{t("export")}</span>
+      {OPTIONS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="hover:text-white underline-offset-2 hover:underline"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useChatStore } from "../store/chatContext";
+import { listMicrophones, requestMicrophone } from "../input";
+import { useTranslation } from "../hooks/useTranslation";
+
+// Shown while an input issue pauses listening (see src/input/errors.ts).
+// "Try again" opens the mic first, so a fix that didn't work shows up here
+// instead of as another recognition error.
+export const InputIssuePanel = () => {
+  const { inputIssue, setInputIssue, audioDeviceId, setAudioDevice, endChat } =
+    useChatStore();
+  const t = useTranslation();
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const kind = inputIssue?.kind;
+
+  // The device picker lists what's plugged in now
+  useEffect(() => {
+    if (kind !== "device") return;
+
+    let cancelled = false;
+    const refresh = () =>
+      listMicrophones()
+        .then((devices) => {
+          if (!cancelled) setMicrophones(devices);
+        })
+        .catch((e) =>
+          console.warn("⚠ Couldn't list microphones:", (e as Error).message),
+        );
+
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+    };
+  }, [kind]);
+
+  if (!inputIssue) return null;
+
+  const tryAgain = async () => {
+    setIsChecking(true);
+    try {
+      if (inputIssue.kind !== "failed") await requestMicrophone(audioDeviceId);
+      setInputIssue(null);
+    } catch (e) {
+      console.warn("⚠ Microphone still unavailable:", (e as Error).message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-40">
+      <div
+        role="alertdialog"
+        className="w-96 bg-gray-900 rounded-lg p-6 shadow-xl"
+      >
+        {inputIssue.kind === "permission" && (
+          <>
+            <h2 className="text-lg font-semibold mb-3">
+              {t("micBlockedTitle")}
+            </h2>
+            <ol className="list-decimal list-inside space-y-1 text-sm text-gray-300 mb-4">
+              <li>{t("micBlockedStep1")}</li>
+              <li>{t("micBlockedStep2")}</li>
+              <li>{t("micBlockedStep3")}</li>
+            </ol>
+          </>
+        )}
+
+        {inputIssue.kind === "device" && (
+          <>
+            <h2 className="text-lg font-semibold mb-3">
+              {t("micMissingTitle")}
+            </h2>
+            <p className="text-sm text-gray-300 mb-3">{t("micMissingBody")}</p>
+            <label className="flex flex-col gap-1 text-xs text-gray-400 mb-4">
+              {t("microphone")}
+              <select
+                value={audioDeviceId ?? ""}
+                onChange={(e) => setAudioDevice(e.target.value || null)}
+                className="bg-black/70 rounded px-2 py-1 text-sm text-white"
+              >
+                <option value="">{t("defaultMicrophone")}</option>
+                {microphones.map((mic, i) => (
+                  <option key={mic.deviceId} value={mic.deviceId}>
+                    {mic.label || `${t("microphone")} ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+
+        {inputIssue.kind === "failed" && (
+          <>
+            <h2 className="text-lg font-semibold mb-3">
+              {t("inputFailedTitle")}
+            </h2>
+            <p className="text-sm text-gray-300 mb-4">
+              {t("inputFailedBody", { error: inputIssue.error })}
+            </p>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => endChat()}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            {t("endChat")}
+          </button>
+          <button
+            onClick={tryAgain}
+            disabled={isChecking}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-sm font-semibold"
+          >
+            {isChecking ? t("checkingMicrophone") : t("tryAgain")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
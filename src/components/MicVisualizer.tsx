@@ -1,27 +1,86 @@
+import { useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
+import { useTranslation } from "../hooks/useTranslation";
+import type { MicMonitor } from "../audio/micMonitor";
+
+const BAR_COUNT = 12;
+const MIN_BAR_SCALE = 0.08;
+// Speech energy sits in the lower half of the spectrum
+const SPEECH_BINS = 0.5;
 
 interface MicVisualizerProps {
   isListening: boolean;
+  // Null when the mic stream isn't available - shows the plain pulsing dot
+  monitor: MicMonitor | null;
 }
 
-export const MicVisualizer = ({ isListening }: MicVisualizerProps) => {
+export const MicVisualizer = ({ isListening, monitor }: MicVisualizerProps) => {
+  const t = useTranslation();
+  const barsRef = useRef<(HTMLDivElement | null)[]>([]);
+  const [isHeard, setIsHeard] = useState(false);
+
+  // Bars are updated straight on the DOM every frame - no re-render per frame
+  useEffect(() => {
+    if (!isListening || !monitor) return;
+
+    const bins = new Uint8Array(monitor.binCount);
+    const usable = Math.floor(bins.length * SPEECH_BINS);
+    let frame = 0;
+
+    const draw = () => {
+      monitor.readFrequencies(bins);
+      barsRef.current.forEach((bar, i) => {
+        if (!bar) return;
+        const start = Math.floor((i * usable) / BAR_COUNT);
+        const end = Math.floor(((i + 1) * usable) / BAR_COUNT);
+        let peak = 0;
+        for (let j = start; j < end; j++) peak = Math.max(peak, bins[j]);
+        bar.style.transform = `scaleY(${Math.max(MIN_BAR_SCALE, peak / 255)})`;
+      });
+      setIsHeard(monitor.isVoiceActive());
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isListening, monitor]);
+
   if (!isListening) return null;
 
   return (
     <div className="absolute top-8 right-8 flex items-center gap-3">
-      <motion.div
-        className="w-4 h-4 bg-red-500 rounded-full"
-        animate={{
-          scale: [1, 1.3, 1],
-          opacity: [1, 0.7, 1],
-        }}
-        transition={{
-          duration: 1.5,
-          repeat: Infinity,
-          ease: "easeInOut",
-        }}
-      />
-      <span className="text-sm font-medium">Listening...</span>
+      {monitor ? (
+        <div className="flex items-center gap-0.5 h-6" aria-hidden>
+          {Array.from({ length: BAR_COUNT }, (_, i) => (
+            <div
+              key={i}
+              ref={(el) => {
+                barsRef.current[i] = el;
+              }}
+              className={`w-1 h-full rounded-full transition-colors ${
+                isHeard ? "bg-green-400" : "bg-red-500"
+              }`}
+              style={{ transform: `scaleY(${MIN_BAR_SCALE})` }}
+            />
+          ))}
+        </div>
+      ) : (
+        <motion.div
+          className="w-4 h-4 bg-red-500 rounded-full"
+          animate={{
+            scale: [1, 1.3, 1],
+            opacity: [1, 0.7, 1],
+          }}
+          transition={{
+            duration: 1.5,
+            repeat: Infinity,
+            ease: "easeInOut",
+          }}
+        />
+      )}
+      <span className="text-sm font-medium">
+        {isHeard && monitor ? t("hearingYou") : t("listening")}
+      </span>
     </div>
   );
 };
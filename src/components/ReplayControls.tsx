@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import type { SessionRecording } from "../types";
+import { parseRecording } from "../replay/recorder";
+import {
+  createReplayPlayer,
+  type ReplayPlayer,
+  type ReplayProgress,
+} from "../replay/player";
+import {
+  dispatchRecordedEvent,
+  enterReplay,
+  exitReplay,
+} from "../replay/dispatch";
+import { useChatInstance, useChatStore } from "../store/chatContext";
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const downloadRecording = (recording: SessionRecording) => {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `recording-${recording.recordedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const describe = (event: SessionRecording["events"][number]) => {
+  switch (event.type) {
+    case "utterance":
+      return `utterance "${event.text}"`;
+    case "inputError":
+      return `input error ${event.error}`;
+    case "videoEnd":
+      return `${event.state} clip ended`;
+    case "timer":
+      return `${event.timer} timer`;
+    case "response":
+      return `${event.key} response #${event.index}`;
+    default:
+      return event.type;
+  }
+};
+
+export const ReplayControls = () => {
+  const instance = useChatInstance();
+  const { isActive, isReplaying } = useChatStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [progress, setProgress] = useState<ReplayProgress | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Leave replay mode if the panel goes away mid-replay
+  useEffect(() => {
+    return () => {
+      playerRef.current?.stop();
+      if (instance.store.getState().isReplaying) exitReplay(instance);
+    };
+  }, [instance]);
+
+  const startReplay = (toReplay: SessionRecording) => {
+    playerRef.current?.stop();
+    enterReplay(instance, toReplay);
+    setRecording(toReplay);
+    playerRef.current = createReplayPlayer(
+      toReplay,
+      (event) => dispatchRecordedEvent(instance, event),
+      setProgress,
+    );
+    playerRef.current.setSpeed(speed);
+  };
+
+  const stopReplay = () => {
+    playerRef.current?.stop();
+    playerRef.current = null;
+    setProgress(null);
+    exitReplay(instance);
+  };
+
+  const handleLoad = async (file: File) => {
+    try {
+      startReplay(parseRecording(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleSave = () => {
+    const current = instance.recorder.current();
+    if (current) downloadRecording(current);
+    else setError("Nothing recorded yet - start a chat first");
+  };
+
+  const nextEvent =
+    recording && progress && !progress.isFinished
+      ? recording.events[progress.index]
+      : null;
+
+  return (
+    <div className="absolute bottom-8 left-8 z-30 text-xs">
+      {isOpen && (
+        <div className="mb-2 w-72 bg-black/85 backdrop-blur rounded-lg p-3 space-y-2">
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isReplaying}
+              className="text-gray-300 hover:text-white disabled:opacity-50"
+            >
+              Save recording
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isActive && !isReplaying}
+              className="text-gray-300 hover:text-white disabled:opacity-50"
+            >
+              Load recording
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleLoad(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {isReplaying && progress && (
+            <>
+              <div className="flex gap-2">
+                {progress.isPlaying ? (
+                  <button
+                    onClick={() => playerRef.current?.pause()}
+                    className="px-2 py-1 rounded bg-white/10 hover:bg-white/20"
+                  >
+                    Pause
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => playerRef.current?.play()}
+                    disabled={progress.isFinished}
+                    className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50"
+                  >
+                    Play
+                  </button>
+                )}
+                <button
+                  onClick={() => playerRef.current?.step()}
+                  disabled={progress.isFinished}
+                  className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50"
+                >
+                  Step
+                </button>
+                <select
+                  value={speed}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    setSpeed(value);
+                    playerRef.current?.setSpeed(value);
+                  }}
+                  className="bg-white/10 rounded px-1"
+                >
+                  {SPEEDS.map((value) => (
+                    <option key={value} value={value}>
+                      {value}×
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={stopReplay}
+                  className="ml-auto px-2 py-1 rounded bg-red-600/70 hover:bg-red-600"
+                >
+                  Exit
+                </button>
+              </div>
+              <p className="font-mono text-gray-400">
+                {(progress.virtualTime / 1000).toFixed(1)}s · event{" "}
+                {progress.index}/{progress.total}
+              </p>
+              <p className="font-mono text-gray-500 truncate">
+                next: {nextEvent ? describe(nextEvent) : "end of recording"}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className={`px-4 py-2 backdrop-blur rounded-lg font-semibold ${
+          isReplaying ? "bg-purple-600/80" : "bg-black/70 hover:bg-black/90"
+        }`}
+      >
+        {isReplaying ? "Replaying" : "Replay"}
+      </button>
+    </div>
+  );
+};
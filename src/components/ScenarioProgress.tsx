@@ -0,0 +1,46 @@
+import { useChatStore } from "../store/chatContext";
+import { useTranslation } from "../hooks/useTranslation";
+import { ABANDONED, findScenario, runProgress } from "../scenarios";
+
+// How far the chat is through its guided scenario, and how it ended
+export const ScenarioProgress = () => {
+  const scenarioRun = useChatStore((state) => state.scenarioRun);
+  const t = useTranslation();
+  const scenario = findScenario(scenarioRun?.scenarioId);
+  if (!scenarioRun || !scenario) return null;
+
+  const { step, total } = runProgress(scenario, scenarioRun);
+  const { outcome } = scenarioRun;
+  // An abandoned run stays where it stopped
+  const isComplete = outcome !== null && outcome !== ABANDONED;
+  const percent = isComplete ? 100 : ((step - 1) / total) * 100;
+
+  return (
+    <div className="absolute top-8 left-1/2 -translate-x-1/2 w-72 bg-black/70 backdrop-blur rounded-lg px-4 py-3 text-sm z-30">
+      <div className="flex justify-between gap-2 text-xs text-gray-400 mb-2">
+        <span className="truncate font-semibold text-white">
+          {scenario.definition.title}
+        </span>
+        <span className="shrink-0">
+          {outcome !== null
+            ? t("scenarioFinished", { outcome })
+            : t("scenarioStep", { step, total })}
+        </span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(percent)}
+        className="h-1.5 rounded-full bg-white/10 overflow-hidden"
+      >
+        <div
+          className={`h-full transition-all ${
+            outcome === ABANDONED ? "bg-gray-500" : "bg-blue-500"
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
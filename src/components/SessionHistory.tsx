@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { ChatSession, Locale } from "../types";
+import {
+  deleteSession,
+  saveSession,
+  searchSessions,
+} from "../sessions/sessionRepository";
+import { parseSessionJson } from "../sessions/exportFormats";
+import { ExportMenu } from "./ExportMenu";
+import { LOCALES } from "../i18n";
+import { useChatStore } from "../store/chatContext";
+import { useTranslation, type Translate } from "../hooks/useTranslation";
+
+const formatDate = (ms: number, locale: Locale) =>
+  new Date(ms).toLocaleString(LOCALES[locale].tag, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const formatDuration = (session: ChatSession, t: Translate) => {
+  if (!session.endedAt) return t("unfinished");
+  const seconds = Math.round((session.endedAt - session.startedAt) / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const preview = (session: ChatSession, t: Translate) =>
+  session.transcript.find((entry) => entry.speaker === "user")?.text ??
+  t("noUserInput");
+
+export const SessionHistory = () => {
+  const locale = useChatStore((state) => state.locale);
+  const t = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [selected, setSelected] = useState<ChatSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await searchSessions(query));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setTimeout(refresh, 150);
+    return () => clearTimeout(timer);
+  }, [isOpen, refresh]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (selected?.id === id) setSelected(null);
+      refresh();
+    } catch (e) {
+      setError(t("deleteFailed", { error: (e as Error).message }));
+    }
+  };
+
+  // Import a JSON export and open it
+  const handleImport = async (file: File) => {
+    try {
+      const session = parseSessionJson(await file.text());
+      await saveSession(session);
+      setSelected(session);
+      refresh();
+    } catch (e) {
+      setError(t("importFailed", { error: (e as Error).message }));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="absolute bottom-8 right-8 px-4 py-2 bg-black/70 backdrop-blur hover:bg-black/90 rounded-lg text-sm font-semibold z-30"
+      >
+        {isOpen ? t("closeHistory") : t("history")}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.aside
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ duration: 0.2 }}
+            className="absolute right-0 top-0 bottom-24 w-96 bg-black/85 backdrop-blur p-4 flex flex-col z-40"
+          >
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between mb-3">
+                  <button
+                    onClick={() => setSelected(null)}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    {t("back")}
+                  </button>
+                  <span className="text-xs text-gray-400">{t("readOnly")}</span>
+                </div>
+                <h3 className="text-sm font-semibold text-gray-300">
+                  {formatDate(selected.startedAt, locale)} ·{" "}
+                  {formatDuration(selected, t)}
+                </h3>
+                <p className="text-xs text-gray-500 font-mono mb-2 break-words">
+                  {selected.states.map((visit) => visit.state).join(" → ")}
+                </p>
+                {selected.scenario && (
+                  <p className="text-xs text-gray-400 mb-2">
+                    {`${t("scenario")}: ${selected.scenario.id}`}
+                    {selected.scenario.outcome &&
+                      ` · ${t("scenarioFinished", {
+                        outcome: selected.scenario.outcome,
+                      })}`}
+                  </p>
+                )}
+                <div className="mb-3">
+                  <ExportMenu getSession={() => selected} />
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-3">
+                  {selected.transcript.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className={`text-sm ${
+                        entry.speaker === "user"
+                          ? "text-blue-300"
+                          : "text-green-300"
+                      }`}
+                    >
+                      <span className="font-semibold">
+                        {`${entry.speaker === "user" ? t("you") : t("character")}: `}
+                      </span>
+                      <span className="text-white">{entry.text}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-gray-300">
+                    {t("pastConversations")}
+                  </h3>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    {t("importJson")}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImport(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t("searchTranscripts")}
+                  className="mb-3 px-3 py-2 rounded-lg bg-white/10 text-sm text-white placeholder-gray-400"
+                />
+                {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+                <div className="flex-1 overflow-y-auto space-y-2">
+                  {sessions.length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      {query ? t("noMatches") : t("nothingSaved")}
+                    </p>
+                  )}
+                  {sessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className="group rounded-lg bg-white/5 hover:bg-white/10 p-3 text-sm"
+                    >
+                      <button
+                        onClick={() => setSelected(session)}
+                        className="w-full text-left"
+                      >
+                        <div className="flex justify-between text-xs text-gray-400">
+                          <span>{formatDate(session.startedAt, locale)}</span>
+                          <span>
+                            {formatDuration(session, t)} ·{" "}
+                            {t("lineCount", {
+                              count: session.transcript.length,
+                            })}
+                          </span>
+                        </div>
+                        <p className="truncate text-white mt-1">
+                          {preview(session, t)}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(session.id)}
+                        className="mt-1 text-xs text-red-400 hover:text-red-300 hidden group-hover:block"
+                      >
+                        {t("delete")}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </motion.aside>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { useChatStore } from "../store/chatContext";
+import { useTranslation } from "../hooks/useTranslation";
+
+const TALK_KEY = " ";
+
+// Push-to-talk: the mic is open only while this button or the spacebar is
+// held down (see useConversationInput). The spacebar only works while focus
+// is inside this chat (the element marked data-virtual-chat), so several
+// chats and the host page's own shortcuts don't fight over it.
+export const TalkButton = () => {
+  const { isTalkHeld, setTalkHeld, isListening } = useChatStore();
+  const t = useTranslation();
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const chat = rootRef.current?.closest<HTMLElement>("[data-virtual-chat]");
+    if (!chat) return;
+
+    // Starting the chat removes the focused Start button. Take focus back
+    // so the spacebar works - unless it's somewhere on purpose.
+    if (!document.activeElement || document.activeElement === document.body) {
+      chat.focus({ preventScroll: true });
+    }
+
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return (
+        !!target &&
+        (target.isContentEditable ||
+          !!target.closest("input, textarea, select"))
+      );
+    };
+
+    const handleDown = (e: KeyboardEvent) => {
+      if (e.key !== TALK_KEY || isTyping(e)) return;
+      // No page scroll, and no click on whichever button has focus
+      e.preventDefault();
+      if (!e.repeat) setTalkHeld(true);
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      if (e.key !== TALK_KEY || isTyping(e)) return;
+      e.preventDefault();
+      setTalkHeld(false);
+    };
+    // The keyup goes elsewhere once focus leaves the chat or the window
+    const release = () => setTalkHeld(false);
+    const handleFocusOut = (e: FocusEvent) => {
+      if (!chat.contains(e.relatedTarget as Node | null)) release();
+    };
+
+    chat.addEventListener("keydown", handleDown);
+    chat.addEventListener("keyup", handleUp);
+    chat.addEventListener("focusout", handleFocusOut);
+    window.addEventListener("blur", release);
+    return () => {
+      chat.removeEventListener("keydown", handleDown);
+      chat.removeEventListener("keyup", handleUp);
+      chat.removeEventListener("focusout", handleFocusOut);
+      window.removeEventListener("blur", release);
+      release();
+    };
+  }, [setTalkHeld]);
+
+  return (
+    <div ref={rootRef} className="flex flex-col items-center gap-1">
+      <button
+        onPointerDown={(e) => {
+          // Keep getting the pointerup even if the finger slides off
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setTalkHeld(true);
+        }}
+        onPointerUp={() => setTalkHeld(false)}
+        onPointerCancel={() => setTalkHeld(false)}
+        onContextMenu={(e) => e.preventDefault()}
+        aria-pressed={isTalkHeld}
+        className={`px-8 py-4 rounded-full font-semibold text-lg transition-colors shadow-lg select-none touch-none ${
+          isTalkHeld
+            ? "bg-green-600 ring-4 ring-green-400/50"
+            : "bg-gray-700 hover:bg-gray-600"
+        }`}
+      >
+        {isTalkHeld && isListening ? t("releaseToSend") : t("holdToTalk")}
+      </button>
+      <span className="text-xs text-gray-400">{t("holdSpaceHint")}</span>
+    </div>
+  );
+};
@@ -1,22 +1,34 @@
 import { useEffect, useRef } from "react";
-import { useChatStore } from "../store/chatStore";
+import { useChatInstance, useChatStore } from "../store/chatContext";
 import { motion, AnimatePresence } from "framer-motion";
+import { ExportMenu } from "./ExportMenu";
+import { snapshotSession } from "../sessions/persistence";
+import { useTranslation } from "../hooks/useTranslation";
 
 export const Transcript = () => {
-  const { transcript, isActive } = useChatStore();
+  const { store } = useChatInstance();
+  const { transcript, interimTranscript, isActive } = useChatStore();
+  const t = useTranslation();
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [transcript]);
+  }, [transcript, interimTranscript]);
 
-  if (!isActive || transcript.length === 0) return null;
+  if (!isActive || (transcript.length === 0 && !interimTranscript)) {
+    return null;
+  }
 
   return (
     <div className="absolute left-8 top-8 bottom-24 w-80 bg-black/70 backdrop-blur rounded-lg p-4 overflow-hidden flex flex-col z-30">
-      <h3 className="text-sm font-semibold mb-3 text-gray-300">Conversation</h3>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-300">
+          {t("conversation")}
+        </h3>
+        <ExportMenu getSession={() => snapshotSession(store.getState())} />
+      </div>
 
       <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-3">
         <AnimatePresence>
@@ -30,19 +42,27 @@ export const Transcript = () => {
               }`}
             >
               <span className="font-semibold">
-                {entry.speaker === "user" ? "You: " : "Character: "}
+                {`${entry.speaker === "user" ? t("you") : t("character")}: `}
               </span>
               <span className="text-white">{entry.text}</span>
             </motion.div>
           ))}
         </AnimatePresence>
+
+        {/* Still being spoken - replaced by the final line */}
+        {interimTranscript && (
+          <div className="text-sm text-gray-500 italic">
+            <span className="font-semibold">{t("you")}: </span>
+            <span>{interimTranscript}…</span>
+          </div>
+        )}
       </div>
       {!isActive && transcript.length > 0 && (
         <button
-          onClick={() => useChatStore.getState().resetChat()}
+          onClick={() => store.getState().resetChat()}
           className="mt-2 text-xs text-gray-400 hover:text-white"
         >
-          Clear conversation
+          {t("clearConversation")}
         </button>
       )}
     </div>
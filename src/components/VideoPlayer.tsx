@@ -1,79 +1,233 @@
 import { useEffect, useRef, useState } from "react";
-import { useChatStore } from "../store/chatStore";
+import {
+  registerOn,
+  useChatInstance,
+  useChatStore,
+} from "../store/chatContext";
+import { analyticsContext } from "../store/chatStore";
 import type { VideoState } from "../types";
-
-const VIDEO_SOURCES: Record<VideoState, string> = {
-  idle: "/videos/idle.mp4",
-  greeting: "/videos/greeting.mp4",
-  listening: "/videos/listening.mp4",
-  response: "/videos/general_response.mp4",
-  weather: "/videos/weather.mp4",
-  goodbye: "/videos/goodbye.mp4",
-  fallback: "/videos/fallback.mp4",
-  prompt: "/videos/prompt.mp4",
-};
-
-const VIDEO_FALLBACKS: Partial<Record<VideoState, VideoState>> = {
-  response: "listening",
-  weather: "listening",
-  goodbye: "idle",
-};
-
-const LOOPING_STATES: VideoState[] = ["idle", "listening"];
-
-// 🔧 UPDATED: Only block mic during greeting and goodbye
-// During other states (response, weather, etc), mic can stay active for natural conversation
-const BLOCKING_STATES: VideoState[] = [
-  "greeting", // Initial greeting - wait for it to finish
-  "goodbye", // Final goodbye - conversation ending
-];
+import { clipSrc, resolveEffectiveState } from "../characters/manifest";
+import { analytics } from "../analytics";
+import { useTranslation } from "../hooks/useTranslation";
+import {
+  createClipLoader,
+  estimateClipBytes,
+  fetchedBytes,
+  getMemoryBudget,
+  type ClipLoader,
+  type ClipStatus,
+} from "../video/clipLoader";
+import { videoLayout } from "../video/sources";
+import { segmentPosition } from "../video/segments";
+import {
+  createTransitionPlayer,
+  type TransitionPlayer,
+  type TransitionPlayerOptions,
+} from "../video/transitionPlayer";
+
+const LOAD_TIMEOUT = 10000;
+
+// Keyed by video source: the state, or the sprite in a sprite pack
+type ClipStatuses = Record<string, ClipStatus>;
+
+type VideoDecks = Record<string, (HTMLVideoElement | null)[]>;
+
+const decksOf = (videos: VideoDecks, source: string) =>
+  (videos[source] ?? []).filter((video): video is HTMLVideoElement => !!video);
 
 export const VideoPlayer = () => {
-  const { currentState, setState, resetChat, isActive, setCharacterSpeaking } =
-    useChatStore();
-  const [isLoaded, setIsLoaded] = useState(false);
-  const [loadedCount, setLoadedCount] = useState(0);
-  const [failedVideos, setFailedVideos] = useState<Set<VideoState>>(new Set());
-
-  // Create refs for ALL videos
-  const videoRefs = useRef<Record<VideoState, HTMLVideoElement | null>>({
-    idle: null,
-    greeting: null,
-    listening: null,
-    response: null,
-    weather: null,
-    fallback: null,
-    prompt: null,
-    goodbye: null,
+  const { store, recorder, replayTargets, diagnosticsProbes } =
+    useChatInstance();
+  const {
+    currentState,
+    setState,
+    resetChat,
+    isActive,
+    setCharacterSpeaking,
+    character,
+    characterError,
+    isReplaying,
+    locale,
+  } = useChatStore();
+  const t = useTranslation();
+
+  // A new character or locale means new clips - and a new loader. Statuses
+  // from the previous one are ignored rather than reset.
+  const loaderKey = character ? `${character.id}:${locale}` : "";
+  const [clips, setClips] = useState<{ key: string; status: ClipStatuses }>({
+    key: "",
+    status: {},
   });
+  const clipStatus = clips.key === loaderKey ? clips.status : {};
+  const [timedOutKey, setTimedOutKey] = useState<string | null>(null);
+
+  // One <video> per state, or two per sprite file in a sprite pack
+  const layout = character ? videoLayout(character) : null;
+  const states = character ? Object.keys(character.states) : [];
+  const sources = layout ? Object.keys(layout.sources) : [];
+  const critical = layout?.critical ?? [];
+  const stateStatus = (state: VideoState) =>
+    layout ? clipStatus[layout.sourceFor(state)] : undefined;
+
+  // Create refs for ALL videos in the character pack, by source and deck
+  const videoRefs = useRef<VideoDecks>({});
+  const loaderRef = useRef<ClipLoader | null>(null);
+  const playerRef = useRef<TransitionPlayer | null>(null);
+  // Localized clips that didn't load - the default clip is used instead
+  const failedLocaleSrcs = useRef<Set<string>>(new Set());
+
+  // The UI waits for the critical clips only; the rest load in the background
+  const settledCount = critical.filter((source) =>
+    ["loaded", "failed"].includes(clipStatus[source]),
+  ).length;
+  const isLoaded =
+    settledCount === critical.length || timedOutKey === loaderKey;
+
+  const failedVideos = new Set(
+    sources.filter((source) => clipStatus[source] === "failed"),
+  );
 
-  // Track which videos have been loaded
-  const loadedVideos = useRef<Set<VideoState>>(new Set());
-
-  // Handle video loaded
-  const handleVideoLoaded = (state: VideoState) => {
-    if (loadedVideos.current.has(state)) return;
-
-    loadedVideos.current.add(state);
-
-    setLoadedCount(loadedVideos.current.size);
-
-    if (loadedVideos.current.size === Object.keys(VIDEO_SOURCES).length) {
-      setIsLoaded(true);
+  // Get the effective video state: clips that failed - or aren't loaded
+  // yet - are stood in for by their fallbacks
+  const effectiveState = character
+    ? resolveEffectiveState(
+        character,
+        currentState,
+        new Set(states.filter((state) => stateStatus(state) !== "loaded")),
+      )
+    : currentState;
+
+  // Run the loader for this character + locale
+  useEffect(() => {
+    if (!character) return;
+    const layout = videoLayout(character);
+
+    const srcFor = (source: string) => {
+      const definition = layout.sources[source];
+      const localized = clipSrc(definition, locale);
+      return failedLocaleSrcs.current.has(localized)
+        ? definition.src
+        : localized;
+    };
+
+    const loader = createClipLoader({
+      order: layout.order,
+      critical: layout.critical,
+      budgetBytes: getMemoryBudget(),
+      load: (source, attempt) => {
+        if (attempt > 0) {
+          console.warn(`⚠ Retrying ${source} clip (${attempt})`);
+        }
+        for (const video of decksOf(videoRefs.current, source)) {
+          video.src = srcFor(source);
+          video.load();
+        }
+      },
+      unload: (source) => {
+        for (const video of decksOf(videoRefs.current, source)) {
+          video.removeAttribute("src");
+          video.load();
+        }
+      },
+      onChange: (source, status) => {
+        if (status === "failed") {
+          analytics.emit(
+            {
+              type: "videoFailed",
+              state: source,
+              src:
+                decksOf(videoRefs.current, source)[0]?.getAttribute("src") ??
+                null,
+            },
+            analyticsContext(store.getState()),
+          );
+        }
+        setClips((prev) => ({
+          key: loaderKey,
+          status: {
+            ...(prev.key === loaderKey ? prev.status : {}),
+            [source]: status,
+          },
+        }));
+      },
+    });
+    loaderRef.current = loader;
+    loader.start();
 
-      const idleVideo = videoRefs.current["idle"];
-      if (idleVideo && currentState === "idle") {
-        idleVideo.play().catch(console.error);
-      }
+    // Don't hold the UI forever on a slow network
+    const timeout = setTimeout(() => {
+      console.warn("⚠ Timeout: starting before the first clips loaded");
+      setTimedOutKey(loaderKey);
+    }, LOAD_TIMEOUT);
+
+    return () => {
+      clearTimeout(timeout);
+      loader.dispose();
+      loaderRef.current = null;
+    };
+  }, [character, locale, loaderKey, store]);
+
+  // Keep what's playing - and what plays next - loaded
+  const onEnd = character?.states[currentState]?.onEnd;
+  const nextState = onEnd?.type === "transition" ? onEnd.to : null;
+  useEffect(() => {
+    if (!character) return;
+    const { sourceFor } = videoLayout(character);
+    loaderRef.current?.use([
+      ...new Set(
+        [currentState, effectiveState, nextState]
+          .filter((state): state is VideoState => !!state)
+          .map(sourceFor),
+      ),
+    ]);
+  }, [character, currentState, effectiveState, nextState, loaderKey]);
+
+  // Handle video loaded - once every deck of the source has it
+  const handleVideoLoaded = (source: string) => {
+    const videos = decksOf(videoRefs.current, source);
+    if (
+      videos.length === 0 ||
+      videos.some((video) => video.readyState < video.HAVE_CURRENT_DATA)
+    ) {
+      return;
     }
+    // Every deck buffers the file for itself
+    const [video] = videos;
+    loaderRef.current?.loaded(
+      source,
+      estimateClipBytes({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: video.duration,
+        fileBytes: fetchedBytes(video.currentSrc),
+      }) * videos.length,
+    );
   };
 
   // Handle video loading errors
-  const handleVideoError = (state: VideoState, error: any) => {
-    const video = videoRefs.current[state];
-    const errorDetails = video?.error;
+  const handleVideoError = (source: string, video: HTMLVideoElement) => {
+    // Unloaded clips have no src and nothing to report
+    if (!layout || !video.getAttribute("src")) return;
+
+    // A missing localized clip falls back to the default clip first
+    const definition = layout.sources[source];
+    const localized = clipSrc(definition, locale);
+    if (
+      localized !== definition.src &&
+      !failedLocaleSrcs.current.has(localized)
+    ) {
+      console.warn(`⚠ ${locale} clip for ${source} failed, using the default`);
+      failedLocaleSrcs.current.add(localized);
+      for (const deck of decksOf(videoRefs.current, source)) {
+        deck.src = definition.src;
+        deck.load();
+      }
+      return;
+    }
 
-    let errorMessage = `✗ Failed to load ${state}.mp4`;
+    const errorDetails = video.error;
+
+    let errorMessage = `✗ Failed to load ${source} clip`;
 
     if (errorDetails) {
       switch (errorDetails.code) {
@@ -92,102 +246,137 @@ export const VideoPlayer = () => {
       }
     }
 
-    console.error(errorMessage, VIDEO_SOURCES[state]);
-
-    setFailedVideos((prev) => new Set(prev).add(state));
-    handleVideoLoaded(state); // Count as loaded to not block UI
-  };
-
-  // Timeout fallback
-  useEffect(() => {
-    const timeout = setTimeout(() => {
-      if (!isLoaded) {
-        console.warn(
-          `⚠ Timeout: Only ${loadedCount}/8 videos loaded. Proceeding...`,
-        );
-        setIsLoaded(true);
-      }
-    }, 10000);
-
-    return () => clearTimeout(timeout);
-  }, [isLoaded, loadedCount]);
-
-  // Get the effective video state (with fallback if needed)
-  const getEffectiveState = (state: VideoState): VideoState => {
-    const visited = new Set<VideoState>();
-    let current = state;
-
-    while (failedVideos.has(current) && VIDEO_FALLBACKS[current]) {
-      if (visited.has(current)) {
-        console.warn(`Fallback loop detected for ${state}, using 'idle'`);
-        return "idle";
-      }
-      visited.add(current);
-      current = VIDEO_FALLBACKS[current]!;
-    }
-    return current;
+    console.error(errorMessage, video.getAttribute("src"));
+    loaderRef.current?.failed(source);
   };
 
-  // 🔧 KEY FIX: Only block mic during greeting and goodbye
+  // 🔧 KEY FIX: Only block mic while a blocking clip plays
   useEffect(() => {
-    const effectiveState = getEffectiveState(currentState);
-    const shouldBlock = BLOCKING_STATES.includes(effectiveState);
+    const shouldBlock = !!character?.states[effectiveState]?.blocking;
 
     if (shouldBlock) {
       setCharacterSpeaking(true);
     } else {
       setCharacterSpeaking(false);
     }
-  }, [currentState, setCharacterSpeaking, failedVideos]);
+  }, [effectiveState, setCharacterSpeaking, character]);
 
-  // Handle video state changes
-  useEffect(() => {
-    const effectiveState = getEffectiveState(currentState);
-    const currentVideo = videoRefs.current[effectiveState];
-
-    if (!currentVideo || !isLoaded) return;
+  // The player outlives renders, so it calls the latest handlers
+  const playerHandlers = useRef<
+    Pick<TransitionPlayerOptions, "isReady" | "onEnd">
+  >({ isReady: () => false, onEnd: () => {} });
 
-    // Pause all other videos
-    Object.entries(videoRefs.current).forEach(([state, video]) => {
-      if (video && state !== effectiveState) {
-        video.pause();
-        video.currentTime = 0;
-      }
+  // A new character or locale gets a new player, which cuts straight to
+  // its first clip
+  useEffect(() => {
+    if (!character) return;
+    const player = createTransitionPlayer({
+      manifest: character,
+      layout: videoLayout(character),
+      videosFor: (source) => decksOf(videoRefs.current, source),
+      isReady: (state) => playerHandlers.current.isReady(state),
+      onEnd: (state) => playerHandlers.current.onEnd(state),
     });
+    playerRef.current = player;
 
-    currentVideo.currentTime = 0;
+    return () => {
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, [character, loaderKey]);
 
-    requestAnimationFrame(() => {
-      if (isActive || (effectiveState === "idle" && currentVideo.muted)) {
-        currentVideo.play().catch((err) => {
-          console.error(`Failed to play ${effectiveState} video:`, err);
-        });
-      }
-    });
-  }, [currentState, isActive, isLoaded, failedVideos]);
+  // Handle video state changes
+  useEffect(() => {
+    if (isLoaded) playerRef.current?.show(effectiveState, { active: isActive });
+  }, [effectiveState, isActive, isLoaded, loaderKey]);
 
   // Handle video end events
   const handleVideoEnd = (state: VideoState) => {
-    switch (state) {
-      case "greeting":
-        setState("listening");
-        break;
-      case "response":
-      case "weather":
-      case "fallback":
-        setState("listening");
+    const onEnd = character?.states[state]?.onEnd;
+    if (!onEnd) return;
+
+    switch (onEnd.type) {
+      case "transition":
+        setState(onEnd.to, "videoEnd");
         break;
-      case "goodbye":
+      case "reset":
+        // During replay the recorded "reset" timer does this
+        if (isReplaying) break;
         setTimeout(() => {
+          recorder.record({ type: "timer", timer: "reset" });
           resetChat();
-        }, 500);
-        break;
-      case "prompt":
-        setState("listening");
+        }, onEnd.delayMs ?? 0);
         break;
     }
   };
 
+  // Natural clip ends are recorded; during replay only recorded ones count
+  const handleNativeVideoEnd = (state: VideoState) => {
+    if (isReplaying) return;
+    recorder.record({ type: "videoEnd", state });
+    handleVideoEnd(state);
+  };
+
+  useEffect(() => {
+    playerHandlers.current = {
+      isReady: (state) => stateStatus(state) === "loaded",
+      onEnd: handleNativeVideoEnd,
+    };
+  });
+
+  useEffect(() =>
+    registerOn(replayTargets, "video", {
+      videoEnd: (state) => handleVideoEnd(state),
+      reset: resetChat,
+    }),
+  );
+
+  useEffect(() =>
+    registerOn(diagnosticsProbes, "video", () => ({
+      effectiveState,
+      clips: states.map((state) => {
+        const segment = layout?.segmentFor(state);
+        const shown = playerRef.current?.shown();
+        const video =
+          layout && decksOf(videoRefs.current, layout.sourceFor(state))[0];
+        const status = stateStatus(state) ?? "pending";
+        if (!segment) {
+          return {
+            state,
+            status,
+            position: video?.currentTime ?? 0,
+            duration: video?.duration || 0,
+            isPlaying: !!video && !video.paused,
+          };
+        }
+        // A sprite is only playing the segment of the state on screen
+        const isCurrent = shown?.state === state;
+        return {
+          state,
+          status,
+          position: isCurrent ? segmentPosition(shown.video, segment) : 0,
+          duration: segment.end - segment.start,
+          isPlaying: isCurrent && !shown.video.paused,
+        };
+      }),
+      usedBytes: loaderRef.current?.usedBytes() ?? 0,
+    })),
+  );
+
+  if (!character) {
+    return (
+      <div className="relative w-full h-full overflow-hidden bg-black flex items-center justify-center">
+        {characterError ? (
+          <pre className="max-w-xl whitespace-pre-wrap text-sm text-red-400 font-mono">
+            {characterError}
+          </pre>
+        ) : (
+          <p className="text-xl">{t("loadingCharacter")}</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="relative w-full h-full overflow-hidden bg-black">
       {/* Loading screen */}
@@ -197,50 +386,45 @@ export const VideoPlayer = () => {
             <div className="mb-4">
               <div className="inline-block h-12 w-12 animate-spin rounded-full border-4 border-solid border-blue-500 border-r-transparent"></div>
             </div>
-            <p className="text-xl mb-2">Loading videos...</p>
+            <p className="text-xl mb-2">{t("loadingVideos")}</p>
             <p className="text-sm text-gray-400">
-              {loadedCount} / {Object.keys(VIDEO_SOURCES).length}
+              {settledCount} / {critical.length}
             </p>
           </div>
         </div>
       )}
 
-      {/* All video elements */}
-      {(Object.keys(VIDEO_SOURCES) as VideoState[]).map((state) => (
-        <video
-          key={state}
-          ref={(el) => {
-            videoRefs.current[state] = el;
-          }}
-          src={VIDEO_SOURCES[state]}
-          className={`absolute inset-0 w-full h-full object-cover ${
-            getEffectiveState(currentState) === state
-              ? "opacity-100 z-10"
-              : "opacity-0 z-0"
-          }`}
-          style={{
-            transition:
-              getEffectiveState(currentState) === state
-                ? "opacity 50ms ease-in"
-                : "opacity 400ms ease-out",
-            willChange: "opacity",
-          }}
-          loop={LOOPING_STATES.includes(state)}
-          preload="auto"
-          playsInline
-          muted={state === "idle"}
-          onLoadedData={() => handleVideoLoaded(state)}
-          onError={(e) => handleVideoError(state, e)}
-          onEnded={() => handleVideoEnd(state)}
-        />
-      ))}
+      {/* All video elements - the loader gives them a src */}
+      {/* The transition player layers and fades them */}
+      {sources.flatMap((source) => {
+        // Sprites loop, end and set their sound per segment
+        const definition = character.sprites
+          ? undefined
+          : character.states[source];
+        return Array.from({ length: layout?.decks ?? 1 }, (_, deck) => (
+          <video
+            key={`${source}:${deck}`}
+            ref={(el) => {
+              (videoRefs.current[source] ??= [])[deck] = el;
+            }}
+            className="absolute inset-0 w-full h-full object-cover opacity-0"
+            style={{ willChange: "opacity" }}
+            loop={!!definition?.loop}
+            preload="auto"
+            playsInline
+            muted={!!definition?.muted}
+            onLoadedData={() => handleVideoLoaded(source)}
+            onError={(e) => handleVideoError(source, e.currentTarget)}
+          />
+        ));
+      })}
 
       {/* State indicator */}
       <div className="absolute top-4 left-4 bg-black/50 backdrop-blur px-3 py-2 rounded-lg text-sm font-mono z-20">
         <div className="flex items-center gap-2">
           <div
             className={`w-2 h-2 rounded-full ${
-              currentState === "idle"
+              currentState === character.initialState
                 ? "bg-gray-400"
                 : currentState === "listening"
                   ? "bg-green-400"
@@ -248,16 +432,16 @@ export const VideoPlayer = () => {
             }`}
           />
           {currentState}
-          {failedVideos.has(currentState) && " (fallback)"}
+          {stateStatus(currentState) === "failed" && " (fallback)"}
         </div>
       </div>
 
       {failedVideos.size > 0 && (
         <div className="absolute top-4 right-4 bg-red-500/20 backdrop-blur px-3 py-2 rounded-lg text-xs font-mono z-20 group">
-          ⚠ {failedVideos.size} video(s) failed
+          ⚠ {t("videosFailed", { count: failedVideos.size })}
           <div className="absolute right-0 mt-1 hidden group-hover:block bg-black/90 text-white p-2 rounded text-xs whitespace-nowrap">
             {Array.from(failedVideos).map((v) => (
-              <div key={v}>• {v}.mp4</div>
+              <div key={v}>• {layout?.sources[v]?.src ?? v}</div>
             ))}
           </div>
         </div>
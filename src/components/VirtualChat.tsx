@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { VideoPlayer } from "./VideoPlayer";
+import { ChatControls } from "./ChatControls";
+import { MicVisualizer } from "./MicVisualizer";
+import { Transcript } from "./Transcript";
+import { InputIssuePanel } from "./InputIssuePanel";
+import { ScenarioProgress } from "./ScenarioProgress";
+import { useConversationInput } from "../hooks/useConversationInput";
+import {
+  ChatContext,
+  createChatInstance,
+  useChatStore,
+} from "../store/chatContext";
+import { persistSessions } from "../sessions/persistence";
+import {
+  subscribeChatEvents,
+  type ChatEventHandlers,
+} from "../store/chatEvents";
+import { LOCALES } from "../i18n";
+import type {
+  CharacterManifest,
+  InactivityStep,
+  InputMode,
+  ListeningMode,
+  Locale,
+} from "../types";
+
+export interface VirtualChatProps extends ChatEventHandlers {
+  // A manifest URL or an already-parsed manifest object (validated either
+  // way). Defaults to VITE_CHARACTER_MANIFEST or the default pack. Pass a
+  // stable value - a new object on every render reloads the character.
+  manifest?: string | CharacterManifest;
+  // Applied between chats; defaults come from the URL and saved settings
+  locale?: Locale;
+  inputMode?: InputMode;
+  listeningMode?: ListeningMode;
+  // Keep speech recognition open across utterances (live captions and
+  // barge-in)
+  continuousListening?: boolean;
+  // Id of a guided scenario written for the locale (see src/scenarios)
+  scenario?: string;
+  // When the character prompts a quiet user and when it gives up. Defaults
+  // to the manifest's inactivityLadder, then to INACTIVITY_LADDER.
+  inactivityLadder?: InactivityStep[];
+  // Mirror conversations into IndexedDB for the session history (default on)
+  saveSessions?: boolean;
+  className?: string;
+  // Rendered on top of the chat, inside its store (e.g. the QA panels)
+  children?: ReactNode;
+}
+
+// The part that needs the store: input, video and the on-screen controls
+const ChatSurface = ({
+  className,
+  inactivityLadder,
+  children,
+}: VirtualChatProps) => {
+  // Initialize the selected input provider (mic, typed or scripted)
+  const { submitText, micMonitor } = useConversationInput({
+    inactivityLadder,
+  });
+  const { isListening, inputMode, locale } = useChatStore();
+
+  return (
+    // Focusable, so a click anywhere in the chat gives it the keyboard
+    <div
+      data-virtual-chat
+      tabIndex={-1}
+      lang={LOCALES[locale].tag}
+      className={`relative w-full h-full overflow-hidden outline-none ${className ?? ""}`}
+    >
+      <VideoPlayer />
+
+      <MicVisualizer
+        isListening={isListening && inputMode === "speech"}
+        monitor={micMonitor}
+      />
+      <Transcript />
+      <ScenarioProgress />
+      <ChatControls onSubmitText={submitText} />
+      <InputIssuePanel />
+      {children}
+    </div>
+  );
+};
+
+// One self-contained character chat. Every instance has its own store, so
+// several can run on a page.
+export const VirtualChat = (props: VirtualChatProps) => {
+  const {
+    manifest,
+    locale,
+    inputMode,
+    listeningMode,
+    continuousListening,
+    scenario,
+    onTranscript,
+    onStateChange,
+    onSessionEnd,
+    saveSessions = true,
+  } = props;
+  const [instance] = useState(() =>
+    createChatInstance({
+      inputMode,
+      listeningMode,
+      continuousListening,
+      locale,
+      scenarioId: scenario,
+    }),
+  );
+  const { store } = instance;
+
+  // Latest callbacks, so a new function on every render doesn't resubscribe
+  const callbacksRef = useRef<ChatEventHandlers>({});
+  useEffect(() => {
+    callbacksRef.current = { onTranscript, onStateChange, onSessionEnd };
+  });
+
+  useEffect(() => {
+    store.getState().loadCharacter(manifest);
+  }, [store, manifest]);
+
+  // Props win over what the user picked, but only between chats (the store
+  // ignores changes mid-conversation)
+  useEffect(() => {
+    if (locale) store.getState().setLocale(locale);
+  }, [store, locale]);
+
+  useEffect(() => {
+    if (inputMode) store.getState().setInputMode(inputMode);
+  }, [store, inputMode]);
+
+  useEffect(() => {
+    if (listeningMode) store.getState().setListeningMode(listeningMode);
+  }, [store, listeningMode]);
+
+  useEffect(() => {
+    if (continuousListening !== undefined) {
+      store.getState().setContinuousListening(continuousListening);
+    }
+  }, [store, continuousListening]);
+
+  useEffect(() => {
+    if (scenario) store.getState().setScenario(scenario);
+  }, [store, scenario]);
+
+  useEffect(() => {
+    if (!saveSessions) return;
+    return persistSessions(store);
+  }, [store, saveSessions]);
+
+  useEffect(
+    () => subscribeChatEvents(store, () => callbacksRef.current),
+    [store],
+  );
+
+  return (
+    <ChatContext.Provider value={instance}>
+      <ChatSurface {...props} />
+    </ChatContext.Provider>
+  );
+};
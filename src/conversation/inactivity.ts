@@ -0,0 +1,22 @@
+import type { InactivityStep } from "../types";
+
+// ============================================
+// Inactivity ladder - what the character does the longer the user stays
+// quiet. Real speech starts it over from the first rung.
+// ============================================
+
+export const INACTIVITY_LADDER: InactivityStep[] = [
+  { afterMs: 8000, action: "prompt", response: "silencePrompt" },
+  { afterMs: 15000, action: "prompt", response: "silencePromptAgain" },
+  { afterMs: 22000, action: "goodbye", response: "silenceGoodbye" },
+];
+
+// How long to wait for `step` once the previous one has fired
+export const delayBeforeStep = (
+  step: number,
+  ladder: InactivityStep[] = INACTIVITY_LADDER,
+): number | null => {
+  const rung = ladder[step];
+  if (!rung) return null;
+  return Math.max(0, rung.afterMs - (ladder[step - 1]?.afterMs ?? 0));
+};
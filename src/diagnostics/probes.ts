@@ -0,0 +1,39 @@
+import type { VideoState } from "../types";
+import type { ClipStatus } from "../video/clipLoader";
+
+// The hook and VideoPlayer register here while mounted so the diagnostics
+// panel can read what only lives in their refs (timers, video elements).
+// Probes are read on every panel refresh - keep them cheap. Each chat
+// instance has its own set (see store/chatContext.ts).
+
+export type DiagnosticsTimer = "silence" | "restart" | "listenStart";
+
+export interface InputDiagnostics {
+  mode: string;
+  // The provider has been started and hasn't reported onEnd yet
+  isRunning: boolean;
+  // Milliseconds until each pending timer fires (absent when not pending)
+  timers: Partial<Record<DiagnosticsTimer, number>>;
+  inactivityStep: number;
+  retries: number;
+}
+
+export interface ClipDiagnostics {
+  state: VideoState;
+  status: ClipStatus | "pending";
+  // Seconds, from the video element
+  position: number;
+  duration: number;
+  isPlaying: boolean;
+}
+
+export interface VideoDiagnostics {
+  effectiveState: VideoState;
+  clips: ClipDiagnostics[];
+  usedBytes: number;
+}
+
+export interface DiagnosticsProbes {
+  input?: () => InputDiagnostics;
+  video?: () => VideoDiagnostics;
+}
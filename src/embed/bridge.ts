@@ -0,0 +1,185 @@
+import type {
+  EmbedCommand,
+  EmbedErrorCode,
+  EmbedEvent,
+  EmbedMessage,
+} from "../types";
+import type { ChatInstance } from "../store/chatContext";
+import { subscribeChatEvents } from "../store/chatEvents";
+import {
+  EMBED_PROTOCOL_VERSION,
+  isEmbedCommand,
+  isEmbedMessage,
+  isOriginAllowed,
+  wrapMessage,
+} from "./protocol";
+
+// ============================================
+// Embed bridge - runs inside the iframe. Takes commands from the host page
+// (only from allowed origins) and reports what the chat does back to it.
+// ============================================
+
+export interface EmbedBridgeOptions {
+  instance: ChatInstance;
+  allowedOrigins: string[];
+  // Where commands come from and events go (window.parent)
+  host: Window;
+}
+
+const ERROR_MESSAGES: Record<EmbedErrorCode, string> = {
+  unsupportedVersion: `Only protocol version ${EMBED_PROTOCOL_VERSION} is supported`,
+  unknownCommand: "Unknown or malformed command",
+  notReady: "The character hasn't loaded yet",
+  notActive: "No chat is running",
+  notListening: "The character isn't listening right now",
+  rejected: "The chat refused the command in its current state",
+  characterError: "The character pack failed to load",
+  inputIssue: "Listening is paused until the user fixes their microphone",
+};
+
+// VITE_EMBED_ALLOWED_ORIGINS is a comma-separated list of host origins,
+// e.g. "https://example.com,https://staging.example.com". Empty = no API.
+export const getAllowedOrigins = (): string[] =>
+  (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin: string) => origin.trim())
+    .filter(Boolean);
+
+export const createEmbedBridge = ({
+  instance,
+  allowedOrigins,
+  host,
+}: EmbedBridgeOptions) => {
+  const { store, inputControls } = instance;
+  // Set by the first accepted message; events go nowhere before that
+  let hostOrigin: string | null = null;
+
+  const post = (event: EmbedEvent, id?: string) => {
+    if (hostOrigin) host.postMessage(wrapMessage(event, id), hostOrigin);
+  };
+
+  const postReady = () => {
+    const { character, currentState, isActive } = store.getState();
+    post({
+      type: "ready",
+      characterId: character?.id ?? null,
+      state: currentState,
+      isActive,
+    });
+  };
+
+  const postError = (code: EmbedErrorCode, message = ERROR_MESSAGES[code]) =>
+    post({ type: "error", code, message });
+
+  // Returns why the command failed (with details where the code alone
+  // doesn't say), or null
+  const run = (
+    command: EmbedCommand,
+  ): EmbedErrorCode | { code: EmbedErrorCode; message: string } | null => {
+    const state = store.getState();
+    switch (command.type) {
+      case "connect":
+        postReady();
+        return null;
+
+      case "startChat":
+        if (!state.character) return "notReady";
+        if (state.isActive || state.isReplaying) return "rejected";
+        state.startChat();
+        return store.getState().isActive ? null : "rejected";
+
+      case "endChat":
+        if (!state.isActive) return "notActive";
+        state.endChat();
+        return store.getState().isActive ? "rejected" : null;
+
+      case "setState":
+        if (!state.character) return "notReady";
+        // Own keys only - "toString" is on every object
+        if (!Object.hasOwn(state.character.states, command.state)) {
+          return {
+            code: "rejected",
+            message: `The character has no state "${command.state}"`,
+          };
+        }
+        return state.setState(command.state, "embed")
+          ? null
+          : {
+              code: "rejected",
+              message: `The chat can't move to "${command.state}" from "${state.currentState}"`,
+            };
+
+      case "utterance":
+        if (!state.isActive) return "notActive";
+        if (state.inputIssue) return "inputIssue";
+        return inputControls.inject?.(command.text) ? null : "notListening";
+    }
+  };
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== host || !isEmbedMessage(e.data)) return;
+    if (!isOriginAllowed(e.origin, allowedOrigins)) {
+      console.warn(`⚠ Ignoring embed message from ${e.origin}`);
+      return;
+    }
+    hostOrigin = e.origin;
+
+    const message = e.data;
+    let failure: ReturnType<typeof run>;
+    if (message.version !== EMBED_PROTOCOL_VERSION) {
+      failure = "unsupportedVersion";
+    } else if (!isEmbedCommand(message)) {
+      failure = "unknownCommand";
+    } else {
+      failure = run(message as EmbedMessage<EmbedCommand>);
+    }
+    const error =
+      typeof failure === "string"
+        ? { code: failure, message: undefined }
+        : failure;
+
+    // Commands with an id get a result; the rest only hear about failures
+    if (message.id !== undefined) {
+      post(
+        {
+          type: "result",
+          id: message.id,
+          ok: !error,
+          ...(error && { error: error.code }),
+          ...(error?.message && { message: error.message }),
+        },
+        message.id,
+      );
+    } else if (error) {
+      postError(error.code, error.message);
+    }
+  };
+
+  const unsubscribeEvents = subscribeChatEvents(store, () => ({
+    onTranscript: (entry) => post({ type: "transcript", entry }),
+    onStateChange: (to, from) => post({ type: "stateChange", to, from }),
+    onSessionEnd: (session) => post({ type: "sessionEnd", session }),
+  }));
+
+  // Problems the host can't see from the events above
+  const unsubscribeErrors = store.subscribe((state, prev) => {
+    if (state.character !== prev.character && state.character) postReady();
+    if (state.characterError && state.characterError !== prev.characterError) {
+      postError("characterError", state.characterError);
+    }
+    if (state.inputIssue && state.inputIssue !== prev.inputIssue) {
+      postError(
+        "inputIssue",
+        `${ERROR_MESSAGES.inputIssue} (${state.inputIssue.kind}: ${state.inputIssue.error})`,
+      );
+    }
+  });
+
+  window.addEventListener("message", handleMessage);
+
+  return () => {
+    window.removeEventListener("message", handleMessage);
+    unsubscribeEvents();
+    unsubscribeErrors();
+  };
+};
@@ -0,0 +1,161 @@
+import type {
+  EmbedCommand,
+  EmbedErrorCode,
+  EmbedEvent,
+  EmbedMessage,
+  VideoState,
+} from "../types";
+import { isEmbedMessage, wrapMessage } from "./protocol";
+
+// ============================================
+// Host-side client for a chat running in an iframe. Only depends on the
+// protocol, so host pages can use it without React.
+//
+//   const chat = createVirtualChatClient(iframe, {
+//     origin: "https://chat.example.com",
+//   });
+//   chat.on("transcript", ({ entry }) => console.log(entry.text));
+//   await chat.startChat();
+// ============================================
+
+const CONNECT_INTERVAL = 250;
+const DEFAULT_TIMEOUT = 5000;
+
+export type EmbedEventOf<T extends EmbedEvent["type"]> = Extract<
+  EmbedEvent,
+  { type: T }
+>;
+
+export class EmbedCommandError extends Error {
+  code: EmbedErrorCode | "timeout";
+
+  constructor(
+    command: EmbedCommand["type"],
+    code: EmbedErrorCode | "timeout",
+    detail?: string,
+  ) {
+    super(`${command} failed: ${code}${detail ? ` (${detail})` : ""}`);
+    this.name = "EmbedCommandError";
+    this.code = code;
+  }
+}
+
+export interface VirtualChatClientOptions {
+  // The iframe's origin, e.g. "https://chat.example.com". Messages from
+  // anywhere else are ignored.
+  origin: string;
+  // How long a command waits for its result
+  timeoutMs?: number;
+}
+
+interface PendingCommand {
+  command: EmbedCommand["type"];
+  resolve: () => void;
+  reject: (error: EmbedCommandError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const createVirtualChatClient = (
+  iframe: HTMLIFrameElement,
+  { origin, timeoutMs = DEFAULT_TIMEOUT }: VirtualChatClientOptions,
+) => {
+  const listeners = new Map<string, Set<(event: EmbedEvent) => void>>();
+  const pending = new Map<string, PendingCommand>();
+  let nextId = 0;
+  let resolveReady: (event: EmbedEventOf<"ready">) => void = () => {};
+  const ready = new Promise<EmbedEventOf<"ready">>((resolve) => {
+    resolveReady = resolve;
+  });
+
+  const post = (command: EmbedCommand, id?: string) =>
+    iframe.contentWindow?.postMessage(wrapMessage(command, id), origin);
+
+  // The app may still be loading - keep knocking until it answers
+  let connectTimer: ReturnType<typeof setInterval> | null = setInterval(
+    () => post({ type: "connect" }),
+    CONNECT_INTERVAL,
+  );
+  const stopConnecting = () => {
+    if (connectTimer) clearInterval(connectTimer);
+    connectTimer = null;
+  };
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== iframe.contentWindow || e.origin !== origin) return;
+    if (!isEmbedMessage(e.data)) return;
+    const event = e.data as EmbedMessage<EmbedEvent>;
+
+    if (event.type === "ready") {
+      stopConnecting();
+      resolveReady(event);
+    } else if (event.type === "result") {
+      const command = pending.get(event.id);
+      if (command) {
+        pending.delete(event.id);
+        clearTimeout(command.timer);
+        if (event.ok) command.resolve();
+        else {
+          command.reject(
+            new EmbedCommandError(
+              command.command,
+              event.error ?? "rejected",
+              event.message,
+            ),
+          );
+        }
+      }
+    }
+
+    listeners.get(event.type)?.forEach((listener) => listener(event));
+  };
+
+  window.addEventListener("message", handleMessage);
+  post({ type: "connect" });
+
+  // Resolves once the app has accepted the command
+  const send = async (command: EmbedCommand) => {
+    await ready;
+    return new Promise<void>((resolve, reject) => {
+      const id = String(++nextId);
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new EmbedCommandError(command.type, "timeout"));
+      }, timeoutMs);
+      pending.set(id, { command: command.type, resolve, reject, timer });
+      post(command, id);
+    });
+  };
+
+  return {
+    // Resolves with the first "ready" event
+    ready,
+
+    startChat: () => send({ type: "startChat" }),
+    endChat: () => send({ type: "endChat" }),
+    setState: (state: VideoState) => send({ type: "setState", state }),
+    sendUtterance: (text: string) => send({ type: "utterance", text }),
+
+    // Returns a function that removes the listener
+    on: <T extends EmbedEvent["type"]>(
+      type: T,
+      listener: (event: EmbedEventOf<T>) => void,
+    ) => {
+      const set = listeners.get(type) ?? new Set();
+      const wrapped = listener as (event: EmbedEvent) => void;
+      set.add(wrapped);
+      listeners.set(type, set);
+      return () => {
+        set.delete(wrapped);
+      };
+    },
+
+    dispose: () => {
+      stopConnecting();
+      window.removeEventListener("message", handleMessage);
+      pending.forEach(({ timer }) => clearTimeout(timer));
+      pending.clear();
+    },
+  };
+};
+
+export type VirtualChatClient = ReturnType<typeof createVirtualChatClient>;
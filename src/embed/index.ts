@@ -0,0 +1,18 @@
+export {
+  EMBED_PROTOCOL,
+  EMBED_PROTOCOL_VERSION,
+  isEmbedMessage,
+  wrapMessage,
+} from "./protocol";
+export {
+  createEmbedBridge,
+  getAllowedOrigins,
+  type EmbedBridgeOptions,
+} from "./bridge";
+export {
+  EmbedCommandError,
+  createVirtualChatClient,
+  type EmbedEventOf,
+  type VirtualChatClient,
+  type VirtualChatClientOptions,
+} from "./client";
@@ -0,0 +1,56 @@
+import type { EmbedCommand, EmbedEvent, EmbedMessage } from "../types";
+
+// ============================================
+// Embed protocol - shared by the bridge inside the iframe and the host
+// client. Keep this file free of app imports: the client bundle uses it.
+// ============================================
+
+export const EMBED_PROTOCOL = "virtual-chat";
+
+// Bump when a message changes shape. The bridge refuses other versions
+// instead of guessing.
+export const EMBED_PROTOCOL_VERSION = 1;
+
+const COMMAND_TYPES = new Set<EmbedCommand["type"]>([
+  "connect",
+  "startChat",
+  "endChat",
+  "setState",
+  "utterance",
+]);
+
+export const wrapMessage = <T extends EmbedCommand | EmbedEvent>(
+  message: T,
+  id?: string,
+): EmbedMessage<T> => ({
+  ...message,
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  ...(id !== undefined && { id }),
+});
+
+// Anything on the page can post to a window - only look at our own messages
+export const isEmbedMessage = (
+  data: unknown,
+): data is EmbedMessage<EmbedCommand | EmbedEvent> => {
+  const message = data as Partial<EmbedMessage<EmbedCommand>> | null;
+  return (
+    typeof message === "object" &&
+    message?.protocol === EMBED_PROTOCOL &&
+    typeof message.version === "number" &&
+    typeof message.type === "string"
+  );
+};
+
+export const isEmbedCommand = (
+  message: EmbedMessage<EmbedCommand | EmbedEvent>,
+): message is EmbedMessage<EmbedCommand> => {
+  if (!COMMAND_TYPES.has(message.type as EmbedCommand["type"])) return false;
+  if (message.type === "setState") return typeof message.state === "string";
+  if (message.type === "utterance") return typeof message.text === "string";
+  return true;
+};
+
+// "*" allows any origin - only for local testing
+export const isOriginAllowed = (origin: string, allowed: string[]) =>
+  allowed.includes("*") || allowed.includes(origin);
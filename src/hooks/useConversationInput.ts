@@ -0,0 +1,952 @@
+import {
+  useEffect,
+  useRef,
+  useCallback,
+  useState,
+  type RefObject,
+} from "react";
+import {
+  registerOn,
+  useChatInstance,
+  useChatStore,
+} from "../store/chatContext";
+import { analyticsContext } from "../store/chatStore";
+import {
+  localeIntents,
+  extractFacts,
+  interpretUtterance,
+  matchAnswer,
+} from "../intents";
+import {
+  classifyInputError,
+  createInputProvider,
+  getScriptUrl,
+  getSpeechOptions,
+  loadScript,
+  MAX_INPUT_RETRIES,
+  retryDelay,
+} from "../input";
+import type {
+  AnalyticsEventBody,
+  InputProvider,
+  InputProviderHandlers,
+  InactivityStep,
+  IntentMatch,
+  RecognitionAlternative,
+  ResponseBackend,
+  WeatherProvider,
+} from "../types";
+import { analytics } from "../analytics";
+import { BackendError, requestReply, responseBackend } from "../backend";
+import { CLARIFY_STATE, THINKING_STATE } from "../store/stateMachine";
+import { INACTIVITY_LADDER, delayBeforeStep } from "../conversation/inactivity";
+import {
+  defaultWeatherLocation,
+  getWeather,
+  peekWeather,
+  weatherProvider,
+  weatherState,
+  weatherVars,
+} from "../weather";
+import {
+  answerRun,
+  askRun,
+  findScenario,
+  type ScenarioTurn,
+} from "../scenarios";
+import {
+  createMicMonitor,
+  isMicMonitorSupported,
+  type MicMonitor,
+} from "../audio/micMonitor";
+
+// ============================================
+// CONSTANTS
+// ============================================
+const RESTART_DELAY = 500; // Delay before restarting recognition
+const LISTEN_COOLDOWN = 300; // 🔧 REDUCED: Quick restart for natural conversation
+
+type TimerRef = RefObject<ReturnType<typeof setTimeout> | null>;
+
+// When each pending timer is due, for the diagnostics countdowns
+const timerDueAt = new WeakMap<TimerRef, number>();
+
+// The ref is cleared before `fn` runs, so `fn` may set it again
+const setTimer = (ref: TimerRef, fn: () => void, delay: number) => {
+  timerDueAt.set(ref, Date.now() + delay);
+  ref.current = setTimeout(() => {
+    ref.current = null;
+    fn();
+  }, delay);
+};
+
+const timeLeft = (ref: TimerRef) =>
+  ref.current
+    ? Math.max(0, (timerDueAt.get(ref) ?? 0) - Date.now())
+    : undefined;
+
+// ============================================
+// HOOK
+// Drives whichever input provider is selected (mic, typed, scripted) and
+// feeds every utterance through the same pipeline.
+// ============================================
+export interface ConversationInputOptions {
+  // Wins over the character's ladder, which wins over INACTIVITY_LADDER
+  inactivityLadder?: InactivityStep[];
+}
+
+export const useConversationInput = ({
+  inactivityLadder,
+}: ConversationInputOptions = {}) => {
+  const { store, recorder, replayTargets, diagnosticsProbes, inputControls } =
+    useChatInstance();
+  const providerRef = useRef<InputProvider | null>(null);
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const restartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const listenStartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+  const isRunningRef = useRef(false);
+  // Rungs of the inactivity ladder climbed since the user last spoke
+  const inactivityStepRef = useRef(0);
+  const ladderRef = useRef(INACTIVITY_LADDER);
+  // Providers are created once per mode; their callbacks go through here so
+  // they always see the latest pipeline.
+  const handlersRef = useRef<InputProviderHandlers | null>(null);
+  // Only the latest async reply (backend or weather) may answer
+  const replyRequestRef = useRef(0);
+  // Level meter + voice activity (speech mode only). The ref is for the
+  // pipeline, the state for whoever draws the meter.
+  const micMonitorRef = useRef<MicMonitor | null>(null);
+  const [micMonitor, setMicMonitor] = useState<MicMonitor | null>(null);
+  const voiceActivityRef = useRef<((speaking: boolean) => void) | null>(null);
+  // Transient recognition errors are retried quietly with backoff; the
+  // next restart waits retryDelayRef instead of RESTART_DELAY
+  const retryCountRef = useRef(0);
+  const retryDelayRef = useRef<number | null>(null);
+  // The intent a clarifying question is waiting on
+  const clarificationRef = useRef<IntentMatch | null>(null);
+
+  const {
+    isActive,
+    setState,
+    endChat,
+    addTranscript,
+    setListening,
+    setInterimTranscript,
+    isCharacterSpeaking,
+    listeningEnabled,
+    inputMode,
+    listeningMode,
+    isTalkHeld,
+    locale,
+    isReplaying,
+    rememberFacts,
+    respond,
+    countInactivityPrompt,
+    inputIssue,
+    setInputIssue,
+    audioDeviceId,
+    continuousListening,
+    currentState,
+    scenarioRun,
+    setScenarioRun,
+  } = useChatStore();
+  const hasInputIssue = inputIssue !== null;
+  // Typed and scripted input don't involve the mic, so they ignore it
+  const isPushToTalk = inputMode === "speech" && listeningMode === "pushToTalk";
+  const intents = localeIntents[locale];
+
+  // Read when a rung fires, so a new array on every render doesn't re-arm
+  // the timers
+  useEffect(() => {
+    ladderRef.current =
+      inactivityLadder ??
+      store.getState().character?.inactivityLadder ??
+      INACTIVITY_LADDER;
+  });
+
+  const track = useCallback(
+    (body: AnalyticsEventBody) =>
+      analytics.emit(body, analyticsContext(store.getState())),
+    [store],
+  );
+
+  // ------------------------------------------------------------
+  // The state machine decides when listening is allowed
+  // (see TRANSITIONS in store/stateMachine.ts), and an open input issue
+  // pauses it until the user deals with it. In push-to-talk the user has
+  // to hold the talk button on top of that.
+  // ------------------------------------------------------------
+  const shouldBeListening = useCallback(() => {
+    return (
+      listeningEnabled &&
+      isActive &&
+      !isCharacterSpeaking &&
+      !hasInputIssue &&
+      (!isPushToTalk || isTalkHeld)
+    );
+  }, [
+    listeningEnabled,
+    isActive,
+    isCharacterSpeaking,
+    hasInputIssue,
+    isPushToTalk,
+    isTalkHeld,
+  ]);
+
+  const clearTimer = (ref: TimerRef) => {
+    if (ref.current) {
+      clearTimeout(ref.current);
+      ref.current = null;
+    }
+  };
+
+  // Climb one rung of the inactivity ladder. Returns false once there's
+  // nothing left to wait for.
+  const fireSilence = useCallback(() => {
+    const step = ladderRef.current[inactivityStepRef.current];
+    if (!step) return false;
+    inactivityStepRef.current += 1;
+    // A "yes" after "are you still there?" doesn't answer an older question
+    clarificationRef.current = null;
+
+    const say = () =>
+      addTranscript({
+        speaker: "character",
+        text: respond(
+          `system:${step.response}`,
+          intents.systemResponses[step.response],
+        ),
+      });
+
+    if (step.action === "goodbye") {
+      say();
+      endChat("inactivity");
+      return false;
+    }
+
+    if (!setState("prompt", "silence")) return false;
+    countInactivityPrompt();
+    say();
+    return true;
+  }, [
+    setState,
+    endChat,
+    addTranscript,
+    respond,
+    countInactivityPrompt,
+    intents,
+  ]);
+
+  // Wait for the next rung. During replay the recording decides when timers
+  // fire. While the user is audibly talking the timer stays off - it's armed
+  // again when they stop. Push-to-talk has no ladder: not pressing the
+  // button is how the user stays quiet.
+  const armSilenceTimer = useCallback(() => {
+    clearTimer(silenceTimerRef);
+    if (isReplaying || isPushToTalk) return;
+    if (micMonitorRef.current?.isVoiceActive()) return;
+
+    const schedule = () => {
+      const delay = delayBeforeStep(
+        inactivityStepRef.current,
+        ladderRef.current,
+      );
+      if (delay === null) return;
+
+      setTimer(
+        silenceTimerRef,
+        () => {
+          recorder.record({ type: "timer", timer: "silence" });
+          if (fireSilence()) schedule();
+        },
+        delay,
+      );
+    };
+    schedule();
+  }, [isReplaying, isPushToTalk, recorder, fireSilence]);
+
+  // The user said something - back to the first rung
+  const startSilenceTimer = useCallback(() => {
+    inactivityStepRef.current = 0;
+    armSilenceTimer();
+  }, [armSilenceTimer]);
+
+  // ------------------------------------------------------------
+  // Barge-in: talking over an interruptible clip cuts it short and goes
+  // straight back to listening
+  // ------------------------------------------------------------
+  const bargeIn = useCallback(() => {
+    const { character, currentState } = store.getState();
+    if (!character?.states[currentState]?.interruptible) return;
+
+    recorder.record({ type: "bargeIn" });
+    setState("listening", "bargeIn");
+  }, [recorder, setState, store]);
+
+  // ------------------------------------------------------------
+  // Built-in intent matcher - the default, and the fallback whenever the
+  // remote backend can't answer
+  // ------------------------------------------------------------
+  // Intents with weather lines ask the provider first: its report picks
+  // the line and the clip variant, and a failure leaves the generic line.
+  // Replays skip the provider so they're deterministic.
+  const replyWithWeather = useCallback(
+    async (match: IntentMatch, provider: WeatherProvider) => {
+      const requestId = ++replyRequestRef.current;
+      const { character, memory, locale } = store.getState();
+      const request = {
+        location: memory.hometown ?? defaultWeatherLocation,
+        locale,
+      };
+      const source = `intent:${match.intentId}`;
+
+      if (
+        !peekWeather(provider, request) &&
+        character?.states[THINKING_STATE]
+      ) {
+        setState(THINKING_STATE, `weather:${provider.name}`);
+      }
+      const report = await getWeather(provider, request);
+      if (requestId !== replyRequestRef.current || !store.getState().isActive) {
+        return;
+      }
+
+      if (
+        setState(weatherState(character, match.targetState, report), source)
+      ) {
+        addTranscript({
+          speaker: "character",
+          text:
+            report && match.weather
+              ? respond(
+                  `weather:${match.intentId}`,
+                  match.weather,
+                  weatherVars(report, match.weather),
+                )
+              : respond(source, match),
+        });
+      }
+    },
+    [store, setState, addTranscript, respond],
+  );
+
+  const replyWith = useCallback(
+    (match: IntentMatch, confidence: number) => {
+      track({
+        type: "intentMatched",
+        intentId: match.intentId,
+        targetState: match.targetState,
+        isFallback: match.score === 0,
+        confidence,
+      });
+      if (match.weather && weatherProvider && !isReplaying) {
+        replyWithWeather(match, weatherProvider);
+        return;
+      }
+      if (setState(match.targetState, `intent:${match.intentId}`)) {
+        addTranscript({
+          speaker: "character",
+          text: respond(`intent:${match.intentId}`, match),
+        });
+      }
+    },
+    [setState, addTranscript, respond, track, isReplaying, replyWithWeather],
+  );
+
+  // Clarifying questions play the character's optional "clarify" clip, or
+  // whatever the fallback reply plays
+  const clarifyState = useCallback(
+    () =>
+      store.getState().character?.states[CLARIFY_STATE]
+        ? CLARIFY_STATE
+        : intents.fallback.targetState,
+    [store, intents],
+  );
+
+  // Every alternative is scored; an unsure or close call is asked about
+  // instead of acted on (see interpretUtterance)
+  const replyLocally = useCallback(
+    (transcript: string, alternatives?: RecognitionAlternative[]) => {
+      const { candidates, clarify } = interpretUtterance(
+        alternatives ?? [{ transcript }],
+        intents,
+      );
+
+      if (clarify) {
+        if (setState(clarifyState(), `clarify:${clarify.intentId}`)) {
+          clarificationRef.current = clarify;
+          track({
+            type: "clarification",
+            intentId: clarify.intentId,
+            outcome: "asked",
+          });
+          addTranscript({
+            speaker: "character",
+            text: respond(`clarify:${clarify.intentId}`, {
+              responses: clarify.clarify ?? [],
+            }),
+          });
+        }
+        return;
+      }
+
+      const [best] = candidates;
+      replyWith(best.match, best.confidence);
+    },
+    [setState, addTranscript, respond, intents, track, clarifyState, replyWith],
+  );
+
+  // The answer to a pending clarifying question. Returns false when the
+  // utterance isn't a yes or a no - it's then treated as a new request.
+  const answerClarification = useCallback(
+    (transcript: string, alternatives?: RecognitionAlternative[]) => {
+      const pending = clarificationRef.current;
+      if (!pending) return false;
+      clarificationRef.current = null;
+
+      const answer = matchAnswer(alternatives ?? [{ transcript }], intents);
+      track({
+        type: "clarification",
+        intentId: pending.intentId,
+        outcome: !answer
+          ? "ignored"
+          : answer === "yes"
+            ? "confirmed"
+            : "rejected",
+      });
+      if (!answer) return false;
+
+      if (answer === "yes") {
+        replyWith(pending, 1);
+      } else if (setState(clarifyState(), "clarify:rejected")) {
+        addTranscript({
+          speaker: "character",
+          text: respond(
+            "system:clarifyRejected",
+            intents.systemResponses.clarifyRejected,
+          ),
+        });
+      }
+      return true;
+    },
+    [setState, addTranscript, respond, intents, track, clarifyState, replyWith],
+  );
+
+  // ------------------------------------------------------------
+  // Guided scenarios - while one waits on an answer it takes every
+  // utterance, ahead of clarifications and the backend
+  // ------------------------------------------------------------
+  const playScenarioTurn = useCallback(
+    ({ kind, run, lines, state, endChat: ends }: ScenarioTurn) => {
+      setScenarioRun(run);
+      const say = () =>
+        lines.forEach(({ key, set }) =>
+          addTranscript({ speaker: "character", text: respond(key, set) }),
+        );
+
+      if (ends) {
+        say();
+        endChat("scenario");
+        return;
+      }
+      // Asking again sounds like a clarifying question
+      const clip = kind === "retry" ? clarifyState() : state;
+      if (clip && setState(clip, `scenario:${run.scenarioId}`)) say();
+    },
+    [setScenarioRun, addTranscript, respond, endChat, clarifyState, setState],
+  );
+
+  // Returns false when no scenario is waiting on an answer
+  const answerScenario = useCallback(
+    (transcript: string, alternatives?: RecognitionAlternative[]) => {
+      const run = store.getState().scenarioRun;
+      const scenario = findScenario(run?.scenarioId);
+      if (!run || !scenario || !run.asked || run.outcome) return false;
+
+      playScenarioTurn(
+        answerRun(scenario, run, alternatives ?? [{ transcript }]),
+      );
+      return true;
+    },
+    [store, playScenarioTurn],
+  );
+
+  // ------------------------------------------------------------
+  // Remote backend - plays "thinking" (if the character has it) while
+  // waiting, then falls back to the local matcher on any failure
+  // ------------------------------------------------------------
+  const replyFromBackend = useCallback(
+    async (backend: ResponseBackend, transcript: string) => {
+      const requestId = ++replyRequestRef.current;
+      const {
+        character,
+        currentState,
+        memory,
+        locale,
+        transcript: history,
+      } = store.getState();
+      const isStale = () =>
+        requestId !== replyRequestRef.current || !store.getState().isActive;
+
+      if (character?.states[THINKING_STATE]) {
+        setState(THINKING_STATE, `backend:${backend.name}`);
+      }
+
+      try {
+        const reply = await requestReply(backend, {
+          utterance: transcript,
+          transcript: history,
+          currentState,
+          memory,
+          locale,
+        });
+        if (isStale()) return;
+
+        // Own keys only - "constructor" mustn't pass for a state
+        if (!character || !Object.hasOwn(character.states, reply.state)) {
+          throw new BackendError(`unknown state "${reply.state}"`);
+        }
+        if (!setState(reply.state, `backend:${backend.name}`)) {
+          throw new BackendError(`transition to "${reply.state}" rejected`);
+        }
+        addTranscript({ speaker: "character", text: reply.text });
+      } catch (e) {
+        if (isStale()) return;
+        console.warn(
+          "⚠ Response backend failed, using local matcher:",
+          (e as Error).message,
+        );
+        replyLocally(transcript);
+      }
+    },
+    [store, setState, addTranscript, replyLocally],
+  );
+
+  // ------------------------------------------------------------
+  // Process an utterance from any provider
+  // ------------------------------------------------------------
+  const processUtterance = useCallback(
+    (transcript: string, alternatives?: RecognitionAlternative[]) => {
+      // Recognition works again
+      retryCountRef.current = 0;
+      // A reply still on its way (backend, weather) is out of date now
+      replyRequestRef.current += 1;
+
+      track({
+        type: "utterance",
+        text: transcript,
+        chars: transcript.length,
+        words: transcript.split(/\s+/).filter(Boolean).length,
+      });
+
+      // ✅ Add to transcript
+      addTranscript({
+        speaker: "user",
+        text: transcript,
+      });
+
+      // Remember facts first so the reply can use them
+      rememberFacts(extractFacts(transcript, intents));
+
+      // Clarifying questions come from the local matcher, so it takes the
+      // answer too. Replays stay local so they're deterministic.
+      if (
+        !answerScenario(transcript, alternatives) &&
+        !answerClarification(transcript, alternatives)
+      ) {
+        if (responseBackend && !isReplaying) {
+          replyFromBackend(responseBackend, transcript);
+        } else {
+          replyLocally(transcript, alternatives);
+        }
+      }
+
+      // Restart silence timer
+      if (shouldBeListening()) {
+        startSilenceTimer();
+      }
+    },
+    [
+      addTranscript,
+      shouldBeListening,
+      startSilenceTimer,
+      rememberFacts,
+      replyLocally,
+      replyFromBackend,
+      answerClarification,
+      isReplaying,
+      answerScenario,
+      intents,
+      track,
+    ],
+  );
+
+  // ------------------------------------------------------------
+  // Start input
+  // ------------------------------------------------------------
+  const startInput = useCallback(() => {
+    if (isRunningRef.current || (!providerRef.current && !isReplaying)) {
+      return;
+    }
+
+    try {
+      // No mic during replay - utterances come from the recording
+      if (!isReplaying) providerRef.current?.start();
+      isRunningRef.current = true;
+      setListening(true);
+      // Recognition restarts after every utterance; that alone isn't a
+      // reason to start the ladder over
+      if (!silenceTimerRef.current) armSilenceTimer();
+    } catch (e) {
+      console.error("❌ Failed to start input:", (e as Error).message);
+      isRunningRef.current = false;
+      setListening(false);
+      clearTimer(silenceTimerRef);
+    }
+  }, [setListening, armSilenceTimer, isReplaying]);
+
+  // ------------------------------------------------------------
+  // Stop input
+  // ------------------------------------------------------------
+  const stopInput = useCallback(() => {
+    if (!isRunningRef.current) {
+      return;
+    }
+
+    try {
+      if (!isReplaying) providerRef.current?.stop();
+      isRunningRef.current = false;
+      setListening(false);
+      setInterimTranscript("");
+
+      // Clear all timers
+      clearTimer(silenceTimerRef);
+      clearTimer(restartTimerRef);
+    } catch (e) {
+      console.error("❌ Failed to stop input:", (e as Error).message);
+    }
+  }, [setListening, setInterimTranscript, isReplaying]);
+
+  // ------------------------------------------------------------
+  // Keep provider callbacks pointing at the latest pipeline
+  // ------------------------------------------------------------
+  useEffect(() => {
+    handlersRef.current = {
+      onUtterance: processUtterance,
+
+      // The user is mid-sentence: show it, hold off the silence prompt and
+      // interrupt the character if it's talking
+      onInterim: (text) => {
+        setInterimTranscript(text);
+        if (!text) return;
+        startSilenceTimer();
+        bargeIn();
+      },
+
+      // See src/input/errors.ts for what each code means
+      onError: (error) => {
+        const kind = classifyInputError(error);
+        if (kind === "silence") return;
+        console.error("❌ Input error:", error);
+        track({ type: "recognitionError", error, kind });
+
+        if (kind !== "transient") {
+          setInputIssue({ kind, error });
+        } else if (retryCountRef.current >= MAX_INPUT_RETRIES) {
+          setInputIssue({ kind: "failed", error });
+        } else {
+          // onEnd follows every error and does the restart
+          retryDelayRef.current = retryDelay(retryCountRef.current++);
+        }
+      },
+
+      onEnd: () => {
+        isRunningRef.current = false;
+        setListening(false);
+        setInterimTranscript("");
+
+        // Recognition ends after every utterance (and sometimes for no
+        // reason) - restart it if we're still supposed to be listening.
+        // The issue may have been raised by the error just before this.
+        clearTimer(restartTimerRef);
+        const delay = retryDelayRef.current ?? RESTART_DELAY;
+        retryDelayRef.current = null;
+        if (
+          shouldBeListening() &&
+          !isReplaying &&
+          !store.getState().inputIssue
+        ) {
+          setTimer(
+            restartTimerRef,
+            () => {
+              recorder.record({ type: "timer", timer: "restart" });
+              startInput();
+            },
+            delay,
+          );
+        }
+      },
+    };
+  }, [
+    processUtterance,
+    setInputIssue,
+    setListening,
+    setInterimTranscript,
+    startSilenceTimer,
+    bargeIn,
+    shouldBeListening,
+    startInput,
+    isReplaying,
+    track,
+    store,
+    recorder,
+  ]);
+
+  // ------------------------------------------------------------
+  // While an issue is open nothing should fire - not even the inactivity
+  // ladder. Once it's resolved, retries start over.
+  // ------------------------------------------------------------
+  useEffect(() => {
+    if (hasInputIssue) {
+      clearTimer(silenceTimerRef);
+      clearTimer(restartTimerRef);
+    } else {
+      retryCountRef.current = 0;
+    }
+  }, [hasInputIssue]);
+
+  // ------------------------------------------------------------
+  // Voice activity: only real speech energy holds off the silence prompt
+  // ------------------------------------------------------------
+  useEffect(() => {
+    voiceActivityRef.current = (speaking) => {
+      if (speaking) clearTimer(silenceTimerRef);
+      else if (isRunningRef.current) armSilenceTimer();
+    };
+  }, [armSilenceTimer]);
+
+  // The mic stream is opened for the length of a spoken chat, and let go
+  // while an input issue is open (e.g. while the user switches devices)
+  useEffect(() => {
+    if (inputMode !== "speech" || !isActive || isReplaying) return;
+    if (hasInputIssue || !isMicMonitorSupported()) return;
+
+    let cancelled = false;
+    createMicMonitor(
+      {
+        onVoiceStart: () => voiceActivityRef.current?.(true),
+        onVoiceEnd: () => voiceActivityRef.current?.(false),
+      },
+      audioDeviceId,
+    )
+      .then((monitor) => {
+        if (cancelled) {
+          monitor.stop();
+          return;
+        }
+        micMonitorRef.current = monitor;
+        setMicMonitor(monitor);
+      })
+      .catch((e) =>
+        console.warn("⚠ Mic level meter unavailable:", (e as Error).message),
+      );
+
+    return () => {
+      cancelled = true;
+      micMonitorRef.current?.stop();
+      micMonitorRef.current = null;
+      setMicMonitor(null);
+    };
+  }, [inputMode, isActive, isReplaying, hasInputIssue, audioDeviceId]);
+
+  // ------------------------------------------------------------
+  // Let the replay player stand in for the provider and timers
+  // ------------------------------------------------------------
+  useEffect(
+    () =>
+      registerOn(replayTargets, "input", {
+        utterance: (text, alternatives) =>
+          handlersRef.current?.onUtterance(text, alternatives),
+        inputError: (error) => handlersRef.current?.onError(error),
+        bargeIn,
+        timer: (timer) => {
+          if (timer === "silence") fireSilence();
+          else startInput();
+        },
+      }),
+    [fireSilence, startInput, bargeIn, replayTargets],
+  );
+
+  // ------------------------------------------------------------
+  // Utterances injected by a host page - recorded like spoken ones, and
+  // only taken while the chat is listening
+  // ------------------------------------------------------------
+  useEffect(
+    () =>
+      registerOn(inputControls, "inject", (text: string) => {
+        const trimmed = text.trim();
+        const { isListening, isReplaying } = store.getState();
+        if (!trimmed || !isListening || isReplaying) return false;
+
+        recorder.record({ type: "utterance", text: trimmed });
+        handlersRef.current?.onUtterance(trimmed);
+        return true;
+      }),
+    [inputControls, recorder, store],
+  );
+
+  // ------------------------------------------------------------
+  // What the diagnostics panel shows about input
+  // ------------------------------------------------------------
+  useEffect(
+    () =>
+      registerOn(diagnosticsProbes, "input", () => ({
+        mode: isPushToTalk ? `${inputMode} · push-to-talk` : inputMode,
+        isRunning: isRunningRef.current,
+        timers: {
+          silence: timeLeft(silenceTimerRef),
+          restart: timeLeft(restartTimerRef),
+          listenStart: timeLeft(listenStartTimerRef),
+        },
+        inactivityStep: inactivityStepRef.current,
+        retries: retryCountRef.current,
+      })),
+    [diagnosticsProbes, inputMode, isPushToTalk],
+  );
+
+  // ------------------------------------------------------------
+  // Create the provider for the selected input mode
+  // ------------------------------------------------------------
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    let cancelled = false;
+    const handlers: InputProviderHandlers = {
+      onUtterance: (text, alternatives) => {
+        recorder.record({
+          type: "utterance",
+          text,
+          ...(alternatives && { alternatives }),
+        });
+        handlersRef.current?.onUtterance(text, alternatives);
+      },
+      onError: (error) => {
+        recorder.record({ type: "inputError", error });
+        handlersRef.current?.onError(error);
+      },
+      onInterim: (text) => handlersRef.current?.onInterim?.(text),
+      onEnd: () => handlersRef.current?.onEnd(),
+    };
+
+    const setup = async () => {
+      try {
+        const script =
+          inputMode === "scripted" ? await loadScript(getScriptUrl()) : [];
+        if (cancelled) return;
+        providerRef.current = createInputProvider(
+          inputMode,
+          handlers,
+          script,
+          getSpeechOptions(locale, audioDeviceId, continuousListening),
+        );
+      } catch (e) {
+        console.error(`❌ ${inputMode} input not available:`, e);
+      }
+    };
+    setup();
+
+    return () => {
+      cancelled = true;
+      providerRef.current?.dispose();
+      providerRef.current = null;
+      isRunningRef.current = false;
+      clearTimer(silenceTimerRef);
+      clearTimer(restartTimerRef);
+      clearTimer(listenStartTimerRef);
+    };
+  }, [inputMode, locale, audioDeviceId, continuousListening, recorder]);
+
+  // ------------------------------------------------------------
+  // 🔧 MAIN CONTROL: React to state changes AND character speaking status
+  // ------------------------------------------------------------
+  useEffect(() => {
+    const should = shouldBeListening();
+
+    // Cancel pending timer
+    clearTimer(listenStartTimerRef);
+
+    if (should && !isRunningRef.current && !isReplaying) {
+      // A press is deliberate - no cooldown before the mic opens
+      setTimer(
+        listenStartTimerRef,
+        () => {
+          if (shouldBeListening() && !isRunningRef.current) {
+            recorder.record({ type: "timer", timer: "listenStart" });
+            startInput();
+          }
+        },
+        isPushToTalk ? 0 : LISTEN_COOLDOWN,
+      );
+    } else if (!should && isRunningRef.current) {
+      stopInput();
+    }
+
+    return () => {
+      clearTimer(listenStartTimerRef);
+    };
+  }, [
+    shouldBeListening,
+    startInput,
+    stopInput,
+    isReplaying,
+    isPushToTalk,
+    recorder,
+  ]);
+
+  // ------------------------------------------------------------
+  // Pressing talk while the character speaks interrupts it (where the
+  // clip allows). Replays have the barge-in in the recording.
+  // ------------------------------------------------------------
+  useEffect(() => {
+    if (isPushToTalk && isTalkHeld && !isReplaying) bargeIn();
+  }, [isPushToTalk, isTalkHeld, isReplaying, bargeIn]);
+
+  // ------------------------------------------------------------
+  // A scenario's first question waits for the greeting to finish
+  // ------------------------------------------------------------
+  useEffect(() => {
+    if (!isActive || !scenarioRun || scenarioRun.asked) return;
+    if (currentState !== "listening") return;
+    const scenario = findScenario(scenarioRun.scenarioId);
+    if (scenario) playScenarioTurn(askRun(scenario, scenarioRun));
+  }, [isActive, scenarioRun, currentState, playScenarioTurn]);
+
+  // ------------------------------------------------------------
+  // Clean up when inactive
+  // ------------------------------------------------------------
+  useEffect(() => {
+    if (!isActive) {
+      inactivityStepRef.current = 0;
+      clarificationRef.current = null;
+      retryCountRef.current = 0;
+      retryDelayRef.current = null;
+      clearTimer(silenceTimerRef);
+      clearTimer(restartTimerRef);
+      clearTimer(listenStartTimerRef);
+      if (isRunningRef.current) {
+        stopInput();
+      }
+      // The next chat starts the script over
+      providerRef.current?.rewind?.();
+    }
+  }, [isActive, stopInput]);
+
+  // For the typed chat box
+  const submitText = useCallback((text: string) => {
+    providerRef.current?.submit?.(text);
+  }, []);
+
+  return { submitText, micMonitor };
+};
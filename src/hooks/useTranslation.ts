@@ -0,0 +1,15 @@
+import { useCallback } from "react";
+import { useChatStore } from "../store/chatContext";
+import { translate, type MessageKey } from "../i18n";
+
+// UI strings in the current locale
+export const useTranslation = () => {
+  const locale = useChatStore((state) => state.locale);
+  return useCallback(
+    (key: MessageKey, vars?: Record<string, string | number>) =>
+      translate(locale, key, vars),
+    [locale],
+  );
+};
+
+export type Translate = ReturnType<typeof useTranslation>;
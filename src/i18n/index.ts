@@ -0,0 +1,42 @@
+import type { Locale } from "../types";
+
+export { translate, type MessageKey } from "./messages";
+
+// ============================================
+// Supported locales
+// ============================================
+
+export const LOCALES: Record<Locale, { label: string; tag: string }> = {
+  en: { label: "English", tag: "en-US" },
+  ja: { label: "日本語", tag: "ja-JP" },
+  uz: { label: "O'zbekcha", tag: "uz-UZ" },
+};
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const STORAGE_KEY = "virtual-chat-locale";
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && Object.hasOwn(LOCALES, value);
+
+// `?lang=ja` wins, then the last choice, then the browser language
+export const getInitialLocale = (): Locale => {
+  if (typeof window === "undefined") return DEFAULT_LOCALE;
+
+  const requested = new URLSearchParams(window.location.search).get("lang");
+  if (isLocale(requested)) return requested;
+
+  const saved = window.localStorage?.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+
+  const browser = window.navigator.language?.split("-")[0];
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Private mode etc. - the choice just won't survive a reload
+  }
+};
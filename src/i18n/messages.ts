@@ -0,0 +1,207 @@
+import type { Locale } from "../types";
+
+// ============================================
+// UI strings. English is the reference - every locale must define the same
+// keys. {placeholders} are filled in by translate().
+// ============================================
+
+const en = {
+  startChat: "Start Chat",
+  endChat: "End Chat",
+  typeMessage: "Type a message...",
+  pleaseWait: "Please wait...",
+  send: "Send",
+  typeInstead: "Type instead",
+  useMicrophone: "Use microphone",
+  speechUnsupported: "Speech recognition isn't supported here - type to chat",
+  usePushToTalk: "Use push-to-talk",
+  useHandsFree: "Listen hands-free",
+  useContinuous: "Keep listening between sentences",
+  useSingleUtterance: "Listen one sentence at a time",
+  holdToTalk: "Hold to talk",
+  releaseToSend: "Release to send",
+  holdSpaceHint: "or hold Space",
+  language: "Language",
+  scenario: "Scenario",
+  freeConversation: "Free conversation",
+  scenarioStep: "Question {step} of {total}",
+  scenarioFinished: "Finished: {outcome}",
+  listening: "Listening...",
+  hearingYou: "I can hear you...",
+  conversation: "Conversation",
+  you: "You",
+  character: "Character",
+  clearConversation: "Clear conversation",
+  export: "Export:",
+  history: "History",
+  closeHistory: "Close history",
+  back: "← Back",
+  readOnly: "Read-only",
+  pastConversations: "Past conversations",
+  importJson: "Import JSON",
+  importFailed: "Import failed: {error}",
+  deleteFailed: "Delete failed: {error}",
+  searchTranscripts: "Search transcripts...",
+  noMatches: "No matching conversations",
+  nothingSaved: "Nothing saved yet",
+  delete: "Delete",
+  lineCount: "{count} lines",
+  unfinished: "unfinished",
+  noUserInput: "(no user input)",
+  loadingCharacter: "Loading character...",
+  loadingVideos: "Loading videos...",
+  videosFailed: "{count} video(s) failed",
+  micBlockedTitle: "Microphone access is blocked",
+  micBlockedStep1: "Click the lock or mic icon in the address bar",
+  micBlockedStep2: "Allow microphone access for this site",
+  micBlockedStep3: "Come back here and press Try again",
+  micMissingTitle: "Can't use the microphone",
+  micMissingBody:
+    "It may be unplugged or in use by another app. Pick another one:",
+  microphone: "Microphone",
+  defaultMicrophone: "Default microphone",
+  inputFailedTitle: "Speech recognition stopped working",
+  inputFailedBody:
+    "It kept failing ({error}). Check your connection and try again.",
+  tryAgain: "Try again",
+  checkingMicrophone: "Checking microphone...",
+};
+
+export type MessageKey = keyof typeof en;
+type Messages = Record<MessageKey, string>;
+
+const ja: Messages = {
+  startChat: "チャットを開始",
+  endChat: "チャットを終了",
+  typeMessage: "メッセージを入力...",
+  pleaseWait: "お待ちください...",
+  send: "送信",
+  typeInstead: "文字で入力する",
+  useMicrophone: "マイクを使う",
+  speechUnsupported:
+    "このブラウザは音声認識に対応していません。文字で入力してください",
+  usePushToTalk: "プッシュトゥトークにする",
+  useHandsFree: "ハンズフリーで聞き取る",
+  useContinuous: "話の合間も聞き続ける",
+  useSingleUtterance: "一文ずつ聞き取る",
+  holdToTalk: "押している間だけ話す",
+  releaseToSend: "離すと送信",
+  holdSpaceHint: "スペースキー長押しでも話せます",
+  language: "言語",
+  scenario: "シナリオ",
+  freeConversation: "自由会話",
+  scenarioStep: "質問 {step} / {total}",
+  scenarioFinished: "終了: {outcome}",
+  listening: "聞いています...",
+  hearingYou: "聞こえています...",
+  conversation: "会話",
+  you: "あなた",
+  character: "キャラクター",
+  clearConversation: "会話を消去",
+  export: "エクスポート:",
+  history: "履歴",
+  closeHistory: "履歴を閉じる",
+  back: "← 戻る",
+  readOnly: "閲覧のみ",
+  pastConversations: "過去の会話",
+  importJson: "JSONを読み込む",
+  importFailed: "読み込みに失敗しました: {error}",
+  deleteFailed: "削除に失敗しました: {error}",
+  searchTranscripts: "会話を検索...",
+  noMatches: "一致する会話はありません",
+  nothingSaved: "保存された会話はまだありません",
+  delete: "削除",
+  lineCount: "{count}行",
+  unfinished: "未完了",
+  noUserInput: "(発言なし)",
+  loadingCharacter: "キャラクターを読み込み中...",
+  loadingVideos: "動画を読み込み中...",
+  videosFailed: "{count}本の動画を読み込めませんでした",
+  micBlockedTitle: "マイクへのアクセスがブロックされています",
+  micBlockedStep1: "アドレスバーの鍵またはマイクのアイコンをクリック",
+  micBlockedStep2: "このサイトのマイクへのアクセスを許可",
+  micBlockedStep3: "ここに戻って「再試行」を押してください",
+  micMissingTitle: "マイクを使用できません",
+  micMissingBody:
+    "接続されていないか、別のアプリで使用中の可能性があります。別のマイクを選んでください:",
+  microphone: "マイク",
+  defaultMicrophone: "既定のマイク",
+  inputFailedTitle: "音声認識が停止しました",
+  inputFailedBody:
+    "エラーが続いています（{error}）。接続を確認して再試行してください。",
+  tryAgain: "再試行",
+  checkingMicrophone: "マイクを確認しています...",
+};
+
+const uz: Messages = {
+  startChat: "Suhbatni boshlash",
+  endChat: "Suhbatni tugatish",
+  typeMessage: "Xabar yozing...",
+  pleaseWait: "Iltimos, kuting...",
+  send: "Yuborish",
+  typeInstead: "Yozib yuborish",
+  useMicrophone: "Mikrofondan foydalanish",
+  speechUnsupported: "Bu brauzer nutqni tanimaydi - yozib suhbatlashing",
+  usePushToTalk: "Bosib gapirish",
+  useHandsFree: "Qo'lsiz tinglash",
+  useContinuous: "Gaplar orasida ham tinglash",
+  useSingleUtterance: "Bittadan gap tinglash",
+  holdToTalk: "Gapirish uchun bosib turing",
+  releaseToSend: "Yuborish uchun qo'yib yuboring",
+  holdSpaceHint: "yoki Probelni bosib turing",
+  language: "Til",
+  scenario: "Ssenariy",
+  freeConversation: "Erkin suhbat",
+  scenarioStep: "Savol {step} / {total}",
+  scenarioFinished: "Tugadi: {outcome}",
+  listening: "Tinglayapman...",
+  hearingYou: "Eshityapman...",
+  conversation: "Suhbat",
+  you: "Siz",
+  character: "Qahramon",
+  clearConversation: "Suhbatni tozalash",
+  export: "Eksport:",
+  history: "Tarix",
+  closeHistory: "Tarixni yopish",
+  back: "← Orqaga",
+  readOnly: "Faqat o'qish uchun",
+  pastConversations: "Oldingi suhbatlar",
+  importJson: "JSON import qilish",
+  importFailed: "Import qilib bo'lmadi: {error}",
+  deleteFailed: "O'chirib bo'lmadi: {error}",
+  searchTranscripts: "Suhbatlardan qidirish...",
+  noMatches: "Mos suhbat topilmadi",
+  nothingSaved: "Hali hech narsa saqlanmagan",
+  delete: "O'chirish",
+  lineCount: "{count} qator",
+  unfinished: "tugallanmagan",
+  noUserInput: "(foydalanuvchi gapirmagan)",
+  loadingCharacter: "Qahramon yuklanmoqda...",
+  loadingVideos: "Videolar yuklanmoqda...",
+  videosFailed: "{count} ta video yuklanmadi",
+  micBlockedTitle: "Mikrofonga kirish bloklangan",
+  micBlockedStep1: "Manzil satridagi qulf yoki mikrofon belgisini bosing",
+  micBlockedStep2: "Bu sayt uchun mikrofonga ruxsat bering",
+  micBlockedStep3: "Shu yerga qaytib, «Qayta urinish»ni bosing",
+  micMissingTitle: "Mikrofondan foydalanib bo'lmadi",
+  micMissingBody:
+    "U ulanmagan yoki boshqa dastur band qilgan bo'lishi mumkin. Boshqasini tanlang:",
+  microphone: "Mikrofon",
+  defaultMicrophone: "Standart mikrofon",
+  inputFailedTitle: "Nutqni aniqlash ishlamay qoldi",
+  inputFailedBody:
+    "Xatolik takrorlanmoqda ({error}). Ulanishni tekshirib, qayta urining.",
+  tryAgain: "Qayta urinish",
+  checkingMicrophone: "Mikrofon tekshirilmoqda...",
+};
+
+export const MESSAGES: Record<Locale, Messages> = { en, ja, uz };
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  vars: Record<string, string | number> = {},
+) =>
+  MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match,
+  );
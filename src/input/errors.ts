@@ -0,0 +1,38 @@
+import type { InputIssueKind } from "../types";
+
+// ============================================
+// Recognition error taxonomy - what each Web Speech error code means for
+// the conversation
+// ============================================
+
+export type InputErrorClass =
+  // The user is just quiet - the inactivity ladder handles that
+  | "silence"
+  // Worth retrying quietly (flaky network, recognizer restarted under us)
+  | "transient"
+  // Needs the user - input is paused until they fix it
+  | InputIssueKind;
+
+const CLASSES: Record<string, InputErrorClass> = {
+  "no-speech": "silence",
+  aborted: "transient",
+  network: "transient",
+  "not-allowed": "permission",
+  "service-not-allowed": "permission",
+  "audio-capture": "device",
+  "language-not-supported": "failed",
+  "bad-grammar": "failed",
+  "phrases-not-supported": "failed",
+};
+
+// Unknown codes get the benefit of the doubt
+export const classifyInputError = (error: string): InputErrorClass =>
+  CLASSES[error] ?? "transient";
+
+export const MAX_INPUT_RETRIES = 5;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+
+// 0.5s, 1s, 2s, 4s, 8s
+export const retryDelay = (attempt: number) =>
+  Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
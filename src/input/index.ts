@@ -0,0 +1,92 @@
+import type {
+  InputMode,
+  InputProvider,
+  ListeningMode,
+  InputProviderHandlers,
+  Locale,
+  ScriptedUtterance,
+} from "../types";
+import { LOCALES } from "../i18n";
+import { createScriptedProvider } from "./scriptedProvider";
+import { createTextProvider } from "./textProvider";
+import {
+  createWebSpeechProvider,
+  isSpeechSupported,
+  type SpeechOptions,
+} from "./webSpeechProvider";
+
+export { isSpeechSupported, type SpeechOptions } from "./webSpeechProvider";
+export { loadScript } from "./scriptedProvider";
+export {
+  classifyInputError,
+  retryDelay,
+  MAX_INPUT_RETRIES,
+  type InputErrorClass,
+} from "./errors";
+export { listMicrophones, requestMicrophone } from "./microphone";
+
+export const DEFAULT_SCRIPT_URL = "/scripts/demo.json";
+
+export const createInputProvider = (
+  mode: InputMode,
+  handlers: InputProviderHandlers,
+  script: ScriptedUtterance[] = [],
+  speech?: SpeechOptions,
+): InputProvider => {
+  switch (mode) {
+    case "speech":
+      return createWebSpeechProvider(handlers, speech);
+    case "text":
+      return createTextProvider(handlers);
+    case "scripted":
+      return createScriptedProvider(handlers, script);
+  }
+};
+
+// `?input=text|speech|scripted` wins; otherwise use the mic when the browser
+// has speech recognition and fall back to typing when it doesn't.
+export const getInitialInputMode = (): InputMode => {
+  if (typeof window === "undefined") return "text";
+
+  const requested = new URLSearchParams(window.location.search).get("input");
+  if (requested === "text" || requested === "scripted") return requested;
+  if (requested === "speech" && isSpeechSupported()) return "speech";
+
+  return isSpeechSupported() ? "speech" : "text";
+};
+
+export const isInputMode = (value: unknown): value is InputMode =>
+  value === "speech" || value === "text" || value === "scripted";
+
+export const isListeningMode = (value: unknown): value is ListeningMode =>
+  value === "handsFree" || value === "pushToTalk";
+
+// `?ptt` starts in push-to-talk; it can also be picked before each chat
+export const getInitialListeningMode = (): ListeningMode =>
+  typeof window !== "undefined" &&
+  new URLSearchParams(window.location.search).has("ptt")
+    ? "pushToTalk"
+    : "handsFree";
+
+// `?script=/scripts/other.json` picks the script for scripted runs
+export const getScriptUrl = () =>
+  (typeof window !== "undefined" &&
+    new URLSearchParams(window.location.search).get("script")) ||
+  DEFAULT_SCRIPT_URL;
+
+// `?continuous` starts with the mic kept open across utterances, with live
+// captions; it can also be switched before each chat
+export const getInitialContinuous = () =>
+  typeof window !== "undefined" &&
+  new URLSearchParams(window.location.search).has("continuous");
+
+// Recognizer language follows the locale
+export const getSpeechOptions = (
+  locale: Locale,
+  deviceId: string | null = null,
+  continuous = false,
+): SpeechOptions => ({
+  lang: LOCALES[locale].tag,
+  deviceId,
+  continuous,
+});
@@ -0,0 +1,26 @@
+// ============================================
+// Microphone access - used by the permission screen and device picker to
+// check a fix worked before listening again
+// ============================================
+
+export const audioConstraints = (
+  deviceId: string | null,
+): MediaStreamConstraints => ({
+  audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+});
+
+// Resolves once the mic (or the chosen one) can be opened. Opening it is
+// also what makes the browser ask for permission again.
+export const requestMicrophone = async (deviceId: string | null) => {
+  const stream = await navigator.mediaDevices.getUserMedia(
+    audioConstraints(deviceId),
+  );
+  stream.getTracks().forEach((track) => track.stop());
+};
+
+// Labels are empty until the user has granted mic access once
+export const listMicrophones = async () => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput");
+};
@@ -0,0 +1,67 @@
+import type {
+  InputProvider,
+  InputProviderHandlers,
+  ScriptedUtterance,
+} from "../types";
+
+const DEFAULT_DELAY = 1000;
+
+// Plays a fixed list of utterances for automated runs - one line per
+// listening window, so the conversation paces itself like a real user.
+// Every chat plays the script from the top.
+export const createScriptedProvider = (
+  handlers: InputProviderHandlers,
+  script: ScriptedUtterance[],
+): InputProvider => {
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const clear = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    mode: "scripted",
+    start: () => {
+      clear();
+      const line = script[index];
+      if (!line) return; // Script finished - behave like a silent user
+
+      timer = setTimeout(() => {
+        timer = null;
+        index++;
+        handlers.onUtterance(line.text, line.alternatives);
+        // Like a single-shot recognizer: one result, then end
+        handlers.onEnd();
+      }, line.delayMs ?? DEFAULT_DELAY);
+    },
+    stop: () => {
+      clear();
+      handlers.onEnd();
+    },
+    rewind: () => {
+      clear();
+      index = 0;
+    },
+    dispose: clear,
+  };
+};
+
+export const loadScript = async (url: string): Promise<ScriptedUtterance[]> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Failed to load input script ${url}: HTTP ${res.status}`);
+  }
+
+  const json: unknown = await res.json();
+  if (
+    !Array.isArray(json) ||
+    !json.every((line) => typeof line?.text === "string")
+  ) {
+    throw new Error(`Input script ${url} must be an array of { text }`);
+  }
+  return json as ScriptedUtterance[];
+};
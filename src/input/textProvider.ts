@@ -0,0 +1,29 @@
+import type { InputProvider, InputProviderHandlers } from "../types";
+
+// Typed chat input. Follows the same start/stop gating as the microphone,
+// so messages typed while the character holds the floor are dropped.
+export const createTextProvider = (
+  handlers: InputProviderHandlers,
+): InputProvider => {
+  let accepting = false;
+
+  return {
+    mode: "text",
+    start: () => {
+      accepting = true;
+    },
+    stop: () => {
+      if (!accepting) return;
+      accepting = false;
+      handlers.onEnd();
+    },
+    dispose: () => {
+      accepting = false;
+    },
+    submit: (text) => {
+      const trimmed = text.trim();
+      if (!accepting || !trimmed) return;
+      handlers.onUtterance(trimmed);
+    },
+  };
+};
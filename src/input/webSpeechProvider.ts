@@ -0,0 +1,182 @@
+import type {
+  InputProvider,
+  InputProviderHandlers,
+  RecognitionAlternative,
+} from "../types";
+import { audioConstraints } from "./microphone";
+
+// ============================================
+// TYPES (from Web Speech API)
+// ============================================
+interface SpeechRecognitionEvent extends Event {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+interface SpeechRecognitionResultList {
+  [index: number]: SpeechRecognitionResult;
+  length: number;
+}
+
+interface SpeechRecognitionResult {
+  [index: number]: SpeechRecognitionAlternative;
+  length: number;
+  isFinal: boolean;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  lang: string;
+  // Newer browsers accept a track to recognize from; older ones ignore it
+  // and use the default microphone
+  start: (audioTrack?: MediaStreamTrack) => void;
+  stop: () => void;
+  abort: () => void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+export const isSpeechSupported = () =>
+  typeof window !== "undefined" &&
+  ("SpeechRecognition" in window || "webkitSpeechRecognition" in window);
+
+export interface SpeechOptions {
+  // BCP 47 tag, e.g. "ja-JP"
+  lang: string;
+  // Keep recognizing across utterances and report interim results, instead
+  // of one utterance per start()
+  continuous: boolean;
+  // Microphone picked in the device picker (null = browser default)
+  deviceId?: string | null;
+}
+
+// Readings per utterance to score against the intents
+const MAX_ALTERNATIVES = 5;
+
+// The n-best list of one result. 0 means the browser didn't score it.
+const toAlternatives = (
+  result: SpeechRecognitionResult,
+): RecognitionAlternative[] =>
+  Array.from({ length: result.length }, (_, i) => ({
+    transcript: result[i].transcript.trim(),
+    confidence: result[i].confidence || undefined,
+  })).filter(({ transcript }) => transcript);
+
+// getUserMedia failures, in recognizer error codes
+const mediaErrorCode = (e: unknown) =>
+  e instanceof DOMException && e.name === "NotAllowedError"
+    ? "not-allowed"
+    : "audio-capture";
+
+// ============================================
+// PROVIDER
+// ============================================
+export const createWebSpeechProvider = (
+  handlers: InputProviderHandlers,
+  { lang, continuous, deviceId }: SpeechOptions = {
+    lang: "en-US",
+    continuous: false,
+  },
+): InputProvider => {
+  const SpeechRecognition =
+    window.SpeechRecognition || window.webkitSpeechRecognition;
+  const recognition = new SpeechRecognition();
+  recognition.continuous = continuous;
+  recognition.interimResults = continuous;
+  recognition.maxAlternatives = MAX_ALTERNATIVES;
+  recognition.lang = lang;
+
+  const reportFinal = (result: SpeechRecognitionResult) => {
+    const alternatives = toAlternatives(result);
+    if (alternatives.length > 0) {
+      handlers.onUtterance(alternatives[0].transcript, alternatives);
+    }
+  };
+
+  recognition.onresult = (event) => {
+    if (!continuous) {
+      reportFinal(event.results[0]);
+      return;
+    }
+
+    // Results before resultIndex were already reported as final
+    let interim = "";
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) {
+        handlers.onInterim?.("");
+        reportFinal(result);
+      } else {
+        interim += result[0].transcript;
+      }
+    }
+    if (interim.trim()) handlers.onInterim?.(interim.trim());
+  };
+
+  recognition.onerror = (event) => {
+    handlers.onError(event.error);
+  };
+
+  recognition.onend = () => {
+    handlers.onEnd();
+  };
+
+  // The chosen mic's track is opened on first start and kept until dispose
+  let track: MediaStreamTrack | null = null;
+  let disposed = false;
+
+  const startOnDevice = async () => {
+    try {
+      if (!track) {
+        const stream = await navigator.mediaDevices.getUserMedia(
+          audioConstraints(deviceId ?? null),
+        );
+        track = stream.getAudioTracks()[0];
+      }
+      // Disposed while the mic was opening - dispose couldn't stop it
+      if (disposed) return track.stop();
+      recognition.start(track);
+    } catch (e) {
+      if (disposed) return;
+      handlers.onError(mediaErrorCode(e));
+      handlers.onEnd();
+    }
+  };
+
+  return {
+    mode: "speech",
+    start: () => {
+      if (deviceId) startOnDevice();
+      else recognition.start();
+    },
+    stop: () => recognition.stop(),
+    dispose: () => {
+      disposed = true;
+      recognition.onresult = null;
+      recognition.onerror = null;
+      recognition.onend = null;
+      recognition.abort();
+      track?.stop();
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import type { IntentConfig, Locale } from "../types";
+import enConfig from "./defaultIntents.json";
+import jaConfig from "./defaultIntents.ja.json";
+import uzConfig from "./defaultIntents.uz.json";
+import { compileIntents, type CompiledIntents } from "./matcher";
+
+export {
+  compileIntents,
+  matchIntent,
+  interpretUtterance,
+  matchAnswer,
+  extractFacts,
+  termRegexFor,
+  isAlwaysRenderable,
+  IntentConfigError,
+} from "./matcher";
+export type { CompiledIntents } from "./matcher";
+
+// Intents are data: edit defaultIntents.<locale>.json to add or tune one.
+// All locales are compiled up front so a broken file fails at startup.
+export const localeIntents: Record<Locale, CompiledIntents> = {
+  en: compileIntents(enConfig as IntentConfig),
+  ja: compileIntents(jaConfig as IntentConfig),
+  uz: compileIntents(uzConfig as IntentConfig),
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import type { IntentConfig } from "../types";
+import enConfig from "./defaultIntents.json";
+import { compileIntents, matchIntent } from "./matcher";
+
+const intents = compileIntents(enConfig as IntentConfig);
+const intentOf = (utterance: string) =>
+  matchIntent(utterance, intents).intentId;
+
+describe("matchIntent", () => {
+  it("matches keywords as whole words", () => {
+    expect(intentOf("hi there")).toBe("greeting");
+    expect(intentOf("what's the weather like?")).toBe("weather");
+  });
+
+  it.each(["this", "which", "thinking"])(
+    "doesn't take %j for a greeting",
+    (utterance) => {
+      expect(intentOf(utterance)).not.toBe("greeting");
+    },
+  );
+
+  it('doesn\'t take "today" for the weather', () => {
+    expect(intentOf("today")).not.toBe("weather");
+  });
+});
@@ -0,0 +1,395 @@
+import type {
+  IntentCandidate,
+  IntentConfig,
+  IntentDefinition,
+  IntentMatch,
+  Interpretation,
+  RecognitionAlternative,
+  ResponseSet,
+  SystemResponseKey,
+  WeatherResponses,
+} from "../types";
+import { BUILT_IN_VARS, templateVariables } from "../responses/templates";
+import { WEATHER_CONDITIONS, WEATHER_VARS } from "../weather/provider";
+
+// ============================================
+// Pure intent matcher - no React, no store.
+// Compile a config once, then match utterances against it.
+// ============================================
+
+export class IntentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntentConfigError";
+  }
+}
+
+interface CompiledTerm {
+  label: string;
+  regex: RegExp;
+}
+
+interface CompiledIntent {
+  definition: IntentDefinition;
+  terms: CompiledTerm[];
+  negatives: RegExp[];
+}
+
+interface CompiledExtractor {
+  key: string;
+  regexes: RegExp[];
+}
+
+export interface CompiledIntents {
+  intents: CompiledIntent[];
+  fallback: IntentConfig["fallback"];
+  systemResponses: IntentConfig["systemResponses"];
+  memory: CompiledExtractor[];
+  answers: { yes: RegExp[]; no: RegExp[] };
+}
+
+export const SYSTEM_RESPONSE_KEYS: SystemResponseKey[] = [
+  "silencePrompt",
+  "silencePromptAgain",
+  "silenceGoodbye",
+  "clarifyRejected",
+];
+
+// Below this share of the recognizer's confidence the character asks first
+export const CLARIFY_BELOW_CONFIDENCE = 0.5;
+// ...and also when the runner-up is this close behind
+export const CLARIFY_WITHIN_MARGIN = 0.15;
+// Chrome only scores the first alternative. The unscored ones count half as
+// much as the one before them.
+const UNSCORED_DECAY = 0.5;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Word boundary that also works for non-ASCII letters ("\b" only knows [A-Za-z0-9_])
+const wordRegex = (phrase: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(phrase.trim().toLowerCase()).replace(
+      /\s+/g,
+      "\\s+",
+    )}(?![\\p{L}\\p{N}])`,
+    "iu",
+  );
+
+// For scripts without spaces between words: any occurrence counts
+const phraseRegex = (phrase: string) =>
+  new RegExp(
+    escapeRegExp(phrase.trim().toLowerCase()).replace(/\s+/g, "\\s*"),
+    "iu",
+  );
+
+// Keywords on word boundaries, or anywhere for unspaced scripts
+export const termRegexFor = (matchWholeWords = true) =>
+  matchWholeWords ? wordRegex : phraseRegex;
+
+const patternRegex = (intentId: string, source: string) => {
+  try {
+    return new RegExp(source, "iu");
+  } catch (e) {
+    throw new IntentConfigError(
+      `Intent "${intentId}" has an invalid pattern /${source}/: ${
+        (e as Error).message
+      }`,
+    );
+  }
+};
+
+// Memory-based variants are optional, so every set needs one variant that
+// only uses built-in variables
+export const isAlwaysRenderable = (set: ResponseSet) =>
+  set.responses.some((template) =>
+    templateVariables(template).every((name) => BUILT_IN_VARS.includes(name)),
+  );
+
+const validateResponses = (owner: string, set: ResponseSet) => {
+  if (!isAlwaysRenderable(set)) {
+    throw new IntentConfigError(
+      `${owner} needs at least one response that only uses ${BUILT_IN_VARS.join(
+        "/",
+      )}`,
+    );
+  }
+};
+
+// Weather lines get the report on top of the usual variables, so any other
+// placeholder is a typo that would only show up once the provider answers.
+// Remembered facts are fine, but one line has to work without them.
+const validateWeather = (
+  intentId: string,
+  { responses, conditions }: WeatherResponses,
+  memoryKeys: string[],
+) => {
+  const owner = `Intent "${intentId}" weather`;
+  const always = [...BUILT_IN_VARS, ...WEATHER_VARS];
+  for (const template of responses) {
+    const unknown = templateVariables(template).filter(
+      (name) => !always.includes(name) && !memoryKeys.includes(name),
+    );
+    if (unknown.length > 0) {
+      throw new IntentConfigError(
+        `${owner} response "${template}" uses unknown {${unknown.join(
+          "}, {",
+        )}}`,
+      );
+    }
+  }
+  if (
+    !responses.some((template) =>
+      templateVariables(template).every((name) => always.includes(name)),
+    )
+  ) {
+    throw new IntentConfigError(
+      `${owner} needs at least one response that only uses ${always.join("/")}`,
+    );
+  }
+  // The words are dropped into {condition} as they are
+  for (const condition of WEATHER_CONDITIONS) {
+    if (templateVariables(conditions[condition]).length > 0) {
+      throw new IntentConfigError(
+        `${owner} word for ${condition} can't use {variables}`,
+      );
+    }
+  }
+};
+
+export const compileIntents = (config: IntentConfig): CompiledIntents => {
+  const seen = new Set<string>();
+  const memoryKeys = (config.memory ?? []).map(({ key }) => key);
+  const termRegex = termRegexFor(config.matchWholeWords);
+
+  const intents = config.intents.map((definition) => {
+    if (!definition.id) {
+      throw new IntentConfigError("Every intent needs an id");
+    }
+    if (seen.has(definition.id)) {
+      throw new IntentConfigError(`Duplicate intent id "${definition.id}"`);
+    }
+    seen.add(definition.id);
+
+    const terms: CompiledTerm[] = [
+      ...(definition.keywords ?? []),
+      ...(definition.synonyms ?? []),
+    ].map((word) => ({ label: word, regex: termRegex(word) }));
+
+    for (const source of definition.patterns ?? []) {
+      terms.push({
+        label: `/${source}/`,
+        regex: patternRegex(definition.id, source),
+      });
+    }
+
+    validateResponses(`Intent "${definition.id}"`, definition);
+    if (definition.clarify) {
+      validateResponses(`Intent "${definition.id}" clarify`, {
+        responses: definition.clarify,
+      });
+    }
+    if (definition.weather) {
+      const { responses, conditions } = definition.weather;
+      const missing = WEATHER_CONDITIONS.filter((c) => !conditions?.[c]);
+      if (!responses?.length || missing.length > 0) {
+        throw new IntentConfigError(
+          `Intent "${definition.id}" weather needs responses and words for ${WEATHER_CONDITIONS.join(
+            "/",
+          )}`,
+        );
+      }
+      validateWeather(definition.id, definition.weather, memoryKeys);
+    }
+
+    if (terms.length === 0) {
+      throw new IntentConfigError(
+        `Intent "${definition.id}" has no keywords, synonyms or patterns`,
+      );
+    }
+
+    return {
+      definition,
+      terms,
+      negatives: (definition.negativePatterns ?? []).map((source) =>
+        patternRegex(definition.id, source),
+      ),
+    };
+  });
+
+  validateResponses("The fallback", config.fallback);
+  for (const key of SYSTEM_RESPONSE_KEYS) {
+    if (!config.systemResponses[key]) {
+      throw new IntentConfigError(`System response "${key}" is missing`);
+    }
+  }
+  for (const [key, set] of Object.entries(config.systemResponses)) {
+    validateResponses(`System response "${key}"`, set);
+  }
+
+  const memory = (config.memory ?? []).map(({ key, patterns }) => ({
+    key,
+    regexes: patterns.map((source) => patternRegex(`memory:${key}`, source)),
+  }));
+
+  if (!config.answers?.yes?.length || !config.answers.no?.length) {
+    throw new IntentConfigError('"answers" needs "yes" and "no" words');
+  }
+
+  return {
+    intents,
+    fallback: config.fallback,
+    systemResponses: config.systemResponses,
+    memory,
+    answers: {
+      yes: config.answers.yes.map(termRegex),
+      no: config.answers.no.map(termRegex),
+    },
+  };
+};
+
+// Facts mentioned in the utterance ("my name is Sam" -> { name: "Sam" }).
+// Runs on the original text so names keep their capitalisation.
+export const extractFacts = (
+  utterance: string,
+  compiled: CompiledIntents,
+): Record<string, string> => {
+  const facts: Record<string, string> = {};
+
+  for (const { key, regexes } of compiled.memory) {
+    for (const regex of regexes) {
+      const value = regex.exec(utterance)?.[1]?.trim();
+      if (value) {
+        facts[key] = value;
+        break;
+      }
+    }
+  }
+
+  return facts;
+};
+
+// Score every intent, drop the ones a negative pattern rules out, and pick
+// the highest priority (then the highest score, then declaration order).
+export const matchIntent = (
+  utterance: string,
+  compiled: CompiledIntents,
+): IntentMatch => {
+  const text = utterance.toLowerCase().trim();
+  let best: IntentMatch | null = null;
+  let bestPriority = -Infinity;
+
+  for (const { definition, terms, negatives } of compiled.intents) {
+    if (negatives.some((regex) => regex.test(text))) continue;
+
+    const matchedTerms = terms
+      .filter(({ regex }) => regex.test(text))
+      .map(({ label }) => label);
+    if (matchedTerms.length === 0) continue;
+
+    const isBetter =
+      definition.priority > bestPriority ||
+      (definition.priority === bestPriority &&
+        matchedTerms.length > (best?.score ?? 0));
+
+    if (isBetter) {
+      bestPriority = definition.priority;
+      best = {
+        intentId: definition.id,
+        targetState: definition.targetState,
+        responses: definition.responses,
+        responseMode: definition.responseMode,
+        score: matchedTerms.length,
+        matchedTerms,
+        clarify: definition.clarify,
+        weather: definition.weather,
+      };
+    }
+  }
+
+  return (
+    best ?? {
+      intentId: compiled.fallback.id,
+      targetState: compiled.fallback.targetState,
+      responses: compiled.fallback.responses,
+      responseMode: compiled.fallback.responseMode,
+      score: 0,
+      matchedTerms: [],
+    }
+  );
+};
+
+const alternativeWeights = (alternatives: RecognitionAlternative[]) => {
+  const weights: number[] = [];
+  alternatives.forEach(({ confidence }, i) => {
+    weights.push(
+      confidence && confidence > 0
+        ? confidence
+        : i === 0
+          ? 1
+          : weights[i - 1] * UNSCORED_DECAY,
+    );
+  });
+  return weights;
+};
+
+// Match every alternative and pool their confidence by intent. A candidate's
+// confidence is its share of the total - or of 1 when the recognizer was
+// unsure about all of them - so one shaky reading stays shaky.
+// The character asks about the best askable candidate when the winner is
+// below CLARIFY_BELOW_CONFIDENCE or within CLARIFY_WITHIN_MARGIN of the
+// runner-up. Typed text (one alternative, no confidence) never asks.
+export const interpretUtterance = (
+  alternatives: RecognitionAlternative[],
+  compiled: CompiledIntents,
+): Interpretation => {
+  const weights = alternativeWeights(alternatives);
+  const total = Math.max(
+    1,
+    weights.reduce((sum, weight) => sum + weight, 0),
+  );
+
+  const byIntent = new Map<string, IntentCandidate>();
+  alternatives.forEach(({ transcript }, i) => {
+    const match = matchIntent(transcript, compiled);
+    const candidate = byIntent.get(match.intentId);
+    if (candidate) candidate.confidence += weights[i] / total;
+    else
+      byIntent.set(match.intentId, { match, confidence: weights[i] / total });
+  });
+
+  // Stable sort: on a tie the earlier alternative wins
+  const candidates = [...byIntent.values()].sort(
+    (a, b) => b.confidence - a.confidence,
+  );
+  const [top, runnerUp] = candidates;
+  const isAskable = (candidate?: IntentCandidate) =>
+    !!candidate && candidate.match.score > 0 && !!candidate.match.clarify;
+
+  let clarify: IntentMatch | null = null;
+  if (top && top.confidence < CLARIFY_BELOW_CONFIDENCE && isAskable(top)) {
+    clarify = top.match;
+  } else if (
+    runnerUp &&
+    top.confidence - runnerUp.confidence < CLARIFY_WITHIN_MARGIN
+  ) {
+    clarify = [top, runnerUp].find(isAskable)?.match ?? null;
+  }
+
+  return { candidates, clarify };
+};
+
+// The answer to a clarifying question, from the first alternative that has
+// one. "Yes, no..." is no answer at all.
+export const matchAnswer = (
+  alternatives: RecognitionAlternative[],
+  compiled: CompiledIntents,
+): "yes" | "no" | null => {
+  for (const { transcript } of alternatives) {
+    const text = transcript.toLowerCase().trim();
+    const yes = compiled.answers.yes.some((regex) => regex.test(text));
+    const no = compiled.answers.no.some((regex) => regex.test(text));
+    if (yes !== no) return yes ? "yes" : "no";
+  }
+  return null;
+};
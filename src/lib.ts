@@ -0,0 +1,40 @@
+// Entry point of the library build (npm run build:lib)
+import "./lib.css";
+
+export { VirtualChat, type VirtualChatProps } from "./components/VirtualChat";
+export { EmbedBridge } from "./components/EmbedBridge";
+export {
+  MANIFEST_VERSION,
+  ManifestError,
+  loadManifest,
+  parseManifest,
+} from "./characters/manifest";
+export { LOCALES } from "./i18n";
+export { INACTIVITY_LADDER } from "./conversation/inactivity";
+export { analytics, startAnalytics } from "./analytics";
+export {
+  EMBED_PROTOCOL_VERSION,
+  EmbedCommandError,
+  createVirtualChatClient,
+  type EmbedEventOf,
+  type VirtualChatClient,
+} from "./embed";
+export type {
+  AnalyticsEvent,
+  AnalyticsSink,
+  CharacterManifest,
+  CharacterStateDefinition,
+  ChatSession,
+  ClipSegment,
+  ClipTransition,
+  EmbedCommand,
+  EmbedErrorCode,
+  EmbedEvent,
+  InactivityStep,
+  InputMode,
+  ListeningMode,
+  Locale,
+  SpriteSheet,
+  TranscriptEntry,
+  VideoState,
+} from "./types";
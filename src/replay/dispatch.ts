@@ -0,0 +1,98 @@
+import type { ChatInstance } from "../store/chatContext";
+import type { ChatState, RecordedEvent, SessionRecording } from "../types";
+import { DEFAULT_LOCALE } from "../i18n";
+
+// Feed one recorded event back through the same code paths it came from
+export const dispatchRecordedEvent = (
+  { store: chatStore, replayTargets }: ChatInstance,
+  event: RecordedEvent,
+) => {
+  const store = chatStore.getState();
+
+  switch (event.type) {
+    case "startChat":
+      store.startChat();
+      break;
+    case "endChat":
+      store.endChat();
+      break;
+    case "utterance":
+      replayTargets.input?.utterance(event.text, event.alternatives);
+      break;
+    case "inputError":
+      replayTargets.input?.inputError(event.error);
+      break;
+    case "bargeIn":
+      replayTargets.input?.bargeIn();
+      break;
+    case "talk":
+      store.setTalkHeld(event.held);
+      break;
+    case "videoEnd":
+      replayTargets.video?.videoEnd(event.state);
+      break;
+    case "timer":
+      if (event.timer === "reset") replayTargets.video?.reset();
+      else replayTargets.input?.timer(event.timer);
+      break;
+    case "response":
+      // Handed to respond() up front by enterReplay
+      break;
+  }
+};
+
+type ReplayedSettings = Pick<
+  ChatState,
+  "inputMode" | "listeningMode" | "locale" | "scenarioId"
+>;
+
+// What the user had picked before a replay borrowed the recording's
+const settingsBeforeReplay = new WeakMap<ChatInstance, ReplayedSettings>();
+
+// Put the app into replay mode from a clean slate, with the recording's
+// input mode, language and scenario so utterances match the same intents
+// and branches, and its response picks so the same lines are said
+export const enterReplay = (
+  instance: ChatInstance,
+  recording: SessionRecording,
+) => {
+  const { store: chatStore, recorder } = instance;
+  const store = chatStore.getState();
+  recorder.setSuspended(true);
+  recorder.replayResponsesFrom(recording);
+  store.resetChat();
+  if (!store.isReplaying) {
+    const { inputMode, listeningMode, locale, scenarioId } = store;
+    settingsBeforeReplay.set(instance, {
+      inputMode,
+      listeningMode,
+      locale,
+      scenarioId,
+    });
+  }
+  store.setInputMode(recording.inputMode);
+  store.setLocale(recording.locale ?? DEFAULT_LOCALE, { save: false });
+  store.setListeningMode(recording.listeningMode ?? "handsFree");
+  store.setScenario(recording.scenarioId ?? null);
+  store.setReplaying(true);
+};
+
+// Back to live chat, with the user's own settings
+export const exitReplay = (instance: ChatInstance) => {
+  const { store: chatStore, recorder } = instance;
+  const store = chatStore.getState();
+  // Reset while still replaying, so the replayed chat ending isn't taken
+  // for a real one
+  store.resetChat();
+  store.setReplaying(false);
+  recorder.replayResponsesFrom(null);
+  recorder.setSuspended(false);
+
+  const settings = settingsBeforeReplay.get(instance);
+  settingsBeforeReplay.delete(instance);
+  if (!settings) return;
+  store.setInputMode(settings.inputMode);
+  store.setLocale(settings.locale, { save: false });
+  store.setListeningMode(settings.listeningMode);
+  store.setScenario(settings.scenarioId);
+};
@@ -0,0 +1,106 @@
+import type { RecordedEvent, SessionRecording } from "../types";
+
+// ============================================
+// Replay player on a virtual clock
+// Real time only moves the clock while playing; step() jumps straight to
+// the next event. Events are dispatched strictly in order, one at a time.
+// ============================================
+
+const TICK_MS = 50;
+
+export interface ReplayProgress {
+  // Index of the next event to dispatch
+  index: number;
+  total: number;
+  virtualTime: number;
+  isPlaying: boolean;
+  isFinished: boolean;
+}
+
+export interface ReplayPlayer {
+  play: () => void;
+  pause: () => void;
+  step: () => void;
+  stop: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+export const createReplayPlayer = (
+  recording: SessionRecording,
+  dispatch: (event: RecordedEvent) => void,
+  onProgress: (progress: ReplayProgress) => void,
+): ReplayPlayer => {
+  const { events } = recording;
+  let index = 0;
+  let virtualTime = 0;
+  let speed = 1;
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let lastTick = 0;
+
+  const report = () =>
+    onProgress({
+      index,
+      total: events.length,
+      virtualTime,
+      isPlaying: interval !== null,
+      isFinished: index >= events.length,
+    });
+
+  const halt = () => {
+    if (interval) {
+      clearInterval(interval);
+      interval = null;
+    }
+  };
+
+  const dispatchDue = () => {
+    while (index < events.length && events[index].t <= virtualTime) {
+      dispatch(events[index]);
+      index++;
+    }
+    if (index >= events.length) halt();
+    report();
+  };
+
+  const tick = () => {
+    const now = performance.now();
+    virtualTime += (now - lastTick) * speed;
+    lastTick = now;
+    dispatchDue();
+  };
+
+  report();
+
+  return {
+    play: () => {
+      if (interval || index >= events.length) return;
+      lastTick = performance.now();
+      interval = setInterval(tick, TICK_MS);
+      report();
+    },
+
+    pause: () => {
+      halt();
+      report();
+    },
+
+    step: () => {
+      halt();
+      if (index >= events.length) return;
+      virtualTime = events[index].t;
+      dispatch(events[index]);
+      index++;
+      report();
+    },
+
+    stop: () => {
+      halt();
+      index = events.length;
+      report();
+    },
+
+    setSpeed: (value) => {
+      speed = value;
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import type {
+  InputMode,
+  ListeningMode,
+  Locale,
+  RecordedEvent,
+  SessionRecording,
+} from "../types";
+import { isLocale } from "../i18n";
+import { isInputMode, isListeningMode } from "../input";
+
+// ============================================
+// Session recorder
+// Captures everything that drives the conversation (utterances, input
+// errors, clip ends, barge-ins, talk button presses, timer firings, the
+// response variants picked) so a bug can be replayed without a mic.
+// One per chat instance (see store/chatContext.ts).
+// ============================================
+
+type Distribute<T> = T extends RecordedEvent ? Omit<T, "t"> : never;
+export type RecordableEvent = Distribute<RecordedEvent>;
+
+// What the chat was set up with; replays start from the same settings
+export interface RecordingSettings {
+  characterId: string;
+  inputMode: InputMode;
+  locale: Locale;
+  listeningMode: ListeningMode;
+  scenarioId: string | null;
+}
+
+interface ActiveRecording extends RecordingSettings {
+  startedAt: number;
+  events: RecordedEvent[];
+}
+
+const toRecording = (recording: ActiveRecording): SessionRecording => ({
+  format: "virtual-chat-recording",
+  version: 1,
+  characterId: recording.characterId,
+  inputMode: recording.inputMode,
+  locale: recording.locale,
+  listeningMode: recording.listeningMode,
+  ...(recording.scenarioId && { scenarioId: recording.scenarioId }),
+  recordedAt: new Date(recording.startedAt).toISOString(),
+  events: [...recording.events],
+});
+
+export const createRecorder = () => {
+  let active: ActiveRecording | null = null;
+  let lastFinished: SessionRecording | null = null;
+  // Set while a recording is being replayed so the replay doesn't record itself
+  let suspended = false;
+  // The replayed recording's response variants per key, in the order said
+  let replayedResponses = new Map<string, number[]>();
+
+  return {
+    begin: (settings: RecordingSettings) => {
+      if (suspended) return;
+      active = { ...settings, startedAt: Date.now(), events: [] };
+    },
+
+    record: (event: RecordableEvent) => {
+      if (suspended || !active) return;
+      active.events.push({
+        ...event,
+        t: Date.now() - active.startedAt,
+      } as RecordedEvent);
+    },
+
+    finish: () => {
+      if (!active) return;
+      lastFinished = toRecording(active);
+      active = null;
+    },
+
+    // The running recording if there is one, otherwise the last finished one
+    current: (): SessionRecording | null =>
+      active ? toRecording(active) : lastFinished,
+
+    setSuspended: (value: boolean) => {
+      suspended = value;
+    },
+
+    // Random picks come from the recording while it's replayed (null ends it)
+    replayResponsesFrom: (recording: SessionRecording | null) => {
+      replayedResponses = new Map();
+      for (const event of recording?.events ?? []) {
+        if (event.type !== "response") continue;
+        const picks = replayedResponses.get(event.key) ?? [];
+        replayedResponses.set(event.key, [...picks, event.index]);
+      }
+    },
+
+    nextReplayedResponse: (key: string): number | undefined =>
+      replayedResponses.get(key)?.shift(),
+  };
+};
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+export class RecordingImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingImportError";
+  }
+}
+
+const EVENT_TYPES = new Set<RecordedEvent["type"]>([
+  "startChat",
+  "endChat",
+  "utterance",
+  "inputError",
+  "videoEnd",
+  "bargeIn",
+  "talk",
+  "timer",
+  "response",
+]);
+
+export const parseRecording = (text: string): SessionRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new RecordingImportError("File is not valid JSON");
+  }
+
+  const doc = raw as Partial<SessionRecording> | null;
+  if (doc?.format !== "virtual-chat-recording" || doc.version !== 1) {
+    throw new RecordingImportError("Not a version 1 session recording");
+  }
+  if (!Array.isArray(doc.events)) {
+    throw new RecordingImportError("events must be an array");
+  }
+  if (doc.locale !== undefined && !isLocale(doc.locale)) {
+    throw new RecordingImportError(
+      `Unsupported locale ${JSON.stringify(doc.locale)}`,
+    );
+  }
+  if (doc.listeningMode !== undefined && !isListeningMode(doc.listeningMode)) {
+    throw new RecordingImportError(
+      `Unsupported listening mode ${JSON.stringify(doc.listeningMode)}`,
+    );
+  }
+  if (!isInputMode(doc.inputMode)) {
+    throw new RecordingImportError(
+      `Unsupported input mode ${JSON.stringify(doc.inputMode)}`,
+    );
+  }
+  if (doc.scenarioId !== undefined && typeof doc.scenarioId !== "string") {
+    throw new RecordingImportError("scenarioId must be a string");
+  }
+
+  doc.events.forEach((event, i) => {
+    if (typeof event?.t !== "number" || !EVENT_TYPES.has(event.type)) {
+      throw new RecordingImportError(`events[${i}] is malformed`);
+    }
+  });
+
+  // Replay relies on chronological order
+  const events = [...doc.events].sort((a, b) => a.t - b.t);
+  return { ...(doc as SessionRecording), events };
+};
@@ -0,0 +1,21 @@
+import type {
+  ConversationTimer,
+  RecognitionAlternative,
+  VideoState,
+} from "../types";
+
+// The hook and VideoPlayer register here while mounted so the replay player
+// can drive them exactly like the mic, the clips and the real timers would.
+// Each chat instance has its own (see store/chatContext.ts).
+export interface ReplayTargets {
+  input?: {
+    utterance: (text: string, alternatives?: RecognitionAlternative[]) => void;
+    inputError: (error: string) => void;
+    bargeIn: () => void;
+    timer: (timer: Exclude<ConversationTimer, "reset">) => void;
+  };
+  video?: {
+    videoEnd: (state: VideoState) => void;
+    reset: () => void;
+  };
+}
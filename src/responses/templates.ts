@@ -0,0 +1,74 @@
+import type { ChatState, ResponseSet } from "../types";
+
+// ============================================
+// Response templates - variant picking and {variable} rendering
+// ============================================
+
+export type TemplateVars = Record<string, string | undefined>;
+
+const VARIABLE = /\{(\w+)\}/g;
+
+// Always available, so a variant using only these can always be rendered
+export const BUILT_IN_VARS = ["timeOfDay", "turnCount"];
+
+export const templateVariables = (template: string) =>
+  Array.from(template.matchAll(VARIABLE), (match) => match[1]);
+
+// Returns null when the template uses a variable we don't know yet
+export const renderTemplate = (
+  template: string,
+  vars: TemplateVars,
+): string | null => {
+  if (templateVariables(template).some((name) => !vars[name])) return null;
+  return template.replace(VARIABLE, (_, name: string) => vars[name]!);
+};
+
+export const timeOfDay = (date: Date) => {
+  const hour = date.getHours();
+  if (hour < 5) return "night";
+  if (hour < 12) return "morning";
+  if (hour < 18) return "afternoon";
+  if (hour < 22) return "evening";
+  return "night";
+};
+
+// Built-in variables plus everything remembered this session
+export const buildTemplateVars = (
+  state: Pick<ChatState, "memory" | "transcript">,
+  now = new Date(),
+): TemplateVars => ({
+  ...state.memory,
+  timeOfDay: timeOfDay(now),
+  turnCount: String(
+    state.transcript.filter((entry) => entry.speaker === "user").length,
+  ),
+});
+
+export interface SelectedResponse {
+  text: string;
+  index: number;
+}
+
+// Pick a variant that can be rendered, never the same one twice in a row
+// (unless it's the only option). "rotate" walks the list in order.
+export const selectResponse = (
+  set: ResponseSet,
+  vars: TemplateVars,
+  lastIndex: number | undefined,
+  random: () => number = Math.random,
+): SelectedResponse | null => {
+  const renderable = set.responses
+    .map((template, index) => ({ index, text: renderTemplate(template, vars) }))
+    .filter((r): r is SelectedResponse => r.text !== null);
+
+  if (renderable.length === 0) return null;
+  if (renderable.length === 1) return renderable[0];
+
+  if (set.responseMode === "rotate") {
+    const next = renderable.find((r) => r.index > (lastIndex ?? -1));
+    return next ?? renderable[0];
+  }
+
+  const candidates = renderable.filter((r) => r.index !== lastIndex);
+  return candidates[Math.floor(random() * candidates.length)];
+};
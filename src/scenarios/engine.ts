@@ -0,0 +1,351 @@
+import type {
+  RecognitionAlternative,
+  ResponseSet,
+  ScenarioBranch,
+  ScenarioDefinition,
+  ScenarioNode,
+  ScenarioRun,
+  VideoState,
+} from "../types";
+import { isAlwaysRenderable, termRegexFor } from "../intents";
+import { isLocale } from "../i18n";
+
+// ============================================
+// Pure scenario engine - no React, no store.
+// A scenario is a graph of questions. Every answer follows a branch, asks
+// again or gives up, until an end node sets the outcome.
+// ============================================
+
+export const DEFAULT_MAX_RETRIES = 2;
+// The outcome of a run whose chat ended before an end node
+export const ABANDONED = "abandoned";
+
+export class ScenarioError extends Error {
+  constructor(scenarioId: string, message: string) {
+    super(`Scenario "${scenarioId}": ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+interface CompiledBranch {
+  branch: ScenarioBranch;
+  terms: RegExp[];
+  negatives: RegExp[];
+}
+
+interface CompiledNode {
+  node: ScenarioNode;
+  branches: CompiledBranch[];
+}
+
+export interface CompiledScenario {
+  definition: ScenarioDefinition;
+  nodes: Map<string, CompiledNode>;
+  // Questions left on the shortest way from each node to an end node
+  remaining: Map<string, number>;
+}
+
+// A line to say, keyed for respond() so variants don't repeat
+export interface ScenarioLine {
+  key: string;
+  set: ResponseSet;
+}
+
+export interface ScenarioTurn {
+  // "ask": put a question, "retry": ask the same one again, "end": outcome
+  kind: "ask" | "retry" | "end";
+  run: ScenarioRun;
+  // Said in order
+  lines: ScenarioLine[];
+  // The node's clip (a retry plays the clarify clip instead)
+  state?: VideoState;
+  endChat: boolean;
+}
+
+const isQuestion = (node: ScenarioNode) => (node.branches?.length ?? 0) > 0;
+
+// Where an answer can lead; giving up isn't counted as a way forward
+const answerTargets = (node: ScenarioNode) =>
+  [
+    ...(node.branches ?? []).map((branch) => branch.next),
+    node.otherwise,
+  ].filter((id): id is string => id !== undefined);
+
+const allTargets = (node: ScenarioNode) =>
+  node.onExhausted === undefined
+    ? answerTargets(node)
+    : [...answerTargets(node), node.onExhausted];
+
+// Shortest number of questions from every node to an end node. Nodes that
+// can't reach one are left out.
+const countRemaining = (
+  nodes: Record<string, ScenarioNode>,
+  successors: (node: ScenarioNode) => string[],
+) => {
+  const remaining = new Map<string, number>();
+  for (const [id, node] of Object.entries(nodes)) {
+    if (!isQuestion(node)) remaining.set(id, 0);
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [id, node] of Object.entries(nodes)) {
+      if (!isQuestion(node)) continue;
+      const best = Math.min(
+        ...successors(node).map((next) => remaining.get(next) ?? Infinity),
+      );
+      if (best + 1 < (remaining.get(id) ?? Infinity)) {
+        remaining.set(id, best + 1);
+        changed = true;
+      }
+    }
+  }
+  return remaining;
+};
+
+export const compileScenario = (
+  definition: ScenarioDefinition,
+): CompiledScenario => {
+  const { id, nodes } = definition;
+  const fail = (message: string): never => {
+    throw new ScenarioError(id || "?", message);
+  };
+
+  if (!id || !definition.title) fail("needs an id and a title");
+  if (!isLocale(definition.locale)) {
+    fail(`unsupported locale ${JSON.stringify(definition.locale)}`);
+  }
+  if (!isAlwaysRenderable({ responses: definition.retry ?? [] })) {
+    fail('"retry" needs a line that only uses built-in variables');
+  }
+
+  const termRegex = termRegexFor(definition.matchWholeWords);
+  const patternRegex = (nodeId: string, source: string) => {
+    try {
+      return new RegExp(source, "iu");
+    } catch (e) {
+      return fail(
+        `node "${nodeId}" has an invalid pattern /${source}/: ${
+          (e as Error).message
+        }`,
+      );
+    }
+  };
+  const checkTarget = (nodeId: string, field: string, target?: string) => {
+    if (target !== undefined && !Object.hasOwn(nodes, target)) {
+      fail(`node "${nodeId}" ${field} points at unknown node "${target}"`);
+    }
+  };
+
+  const compiled = new Map<string, CompiledNode>();
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    if (!isAlwaysRenderable(node)) {
+      fail(`node "${nodeId}" needs a line that only uses built-in variables`);
+    }
+    if (node.retry && !isAlwaysRenderable({ responses: node.retry })) {
+      fail(`node "${nodeId}" retry needs a line that only uses built-ins`);
+    }
+
+    if (isQuestion(node)) {
+      if (node.outcome !== undefined) {
+        fail(`node "${nodeId}" has branches, so it can't have an outcome`);
+      }
+      if (!node.state) fail(`node "${nodeId}" needs a state`);
+      // Every way out of a question has to lead somewhere
+      if (node.otherwise === undefined && node.onExhausted === undefined) {
+        fail(`node "${nodeId}" needs "otherwise" or "onExhausted"`);
+      }
+    } else {
+      if (!node.outcome) fail(`node "${nodeId}" needs branches or an outcome`);
+      if (!node.state && !node.endChat) {
+        fail(`node "${nodeId}" needs a state unless it ends the chat`);
+      }
+    }
+
+    checkTarget(nodeId, "otherwise", node.otherwise);
+    checkTarget(nodeId, "onExhausted", node.onExhausted);
+
+    const branches = (node.branches ?? []).map((branch, i) => {
+      checkTarget(nodeId, `branches[${i}].next`, branch.next);
+      const terms = [
+        ...(branch.keywords ?? []).map(termRegex),
+        ...(branch.synonyms ?? []).map(termRegex),
+        ...(branch.patterns ?? []).map((source) =>
+          patternRegex(nodeId, source),
+        ),
+      ];
+      if (terms.length === 0) {
+        fail(`node "${nodeId}" branches[${i}] has nothing to match`);
+      }
+      if (
+        branch.acknowledge &&
+        !isAlwaysRenderable({ responses: branch.acknowledge })
+      ) {
+        fail(
+          `node "${nodeId}" branches[${i}] acknowledge needs a built-in line`,
+        );
+      }
+      return {
+        branch,
+        terms,
+        negatives: (branch.negativePatterns ?? []).map((source) =>
+          patternRegex(nodeId, source),
+        ),
+      };
+    });
+
+    compiled.set(nodeId, { node, branches });
+  }
+
+  const start = compiled.get(definition.start);
+  if (!start || !isQuestion(start.node)) {
+    fail(`start "${definition.start}" must be a question node`);
+  }
+
+  const reachable = countRemaining(nodes, allTargets);
+  for (const nodeId of compiled.keys()) {
+    if (!reachable.has(nodeId)) fail(`node "${nodeId}" can't reach an end`);
+  }
+
+  // Progress follows the answers; only where they never end does giving
+  // up count
+  const answered = countRemaining(nodes, answerTargets);
+  return {
+    definition,
+    nodes: compiled,
+    remaining: new Map([...reachable, ...answered]),
+  };
+};
+
+const nodeAt = (scenario: CompiledScenario, nodeId: string) => {
+  const compiled = scenario.nodes.get(nodeId);
+  if (!compiled) {
+    throw new ScenarioError(scenario.definition.id, `no node "${nodeId}"`);
+  }
+  return compiled;
+};
+
+const lineFor = (scenario: CompiledScenario, nodeId: string): ScenarioLine => {
+  const { responses, responseMode } = nodeAt(scenario, nodeId).node;
+  return {
+    key: `scenario:${scenario.definition.id}:${nodeId}`,
+    set: { responses, responseMode },
+  };
+};
+
+// Move to `nodeId` and say its line after `lines`
+const enter = (
+  scenario: CompiledScenario,
+  run: ScenarioRun,
+  nodeId: string,
+  lines: ScenarioLine[],
+): ScenarioTurn => {
+  const { node } = nodeAt(scenario, nodeId);
+  return {
+    kind: node.outcome ? "end" : "ask",
+    run: {
+      ...run,
+      nodeId,
+      asked: true,
+      retries: 0,
+      answered: run.answered + 1,
+      outcome: node.outcome ?? null,
+    },
+    lines: [...lines, lineFor(scenario, nodeId)],
+    state: node.state,
+    endChat: !!node.endChat,
+  };
+};
+
+// The branch the answer follows: alternatives are tried most likely first,
+// and within one the first branch that matches wins
+const matchBranch = (
+  branches: CompiledBranch[],
+  alternatives: RecognitionAlternative[],
+) => {
+  for (const { transcript } of alternatives) {
+    const text = transcript.toLowerCase().trim();
+    const index = branches.findIndex(
+      ({ terms, negatives }) =>
+        !negatives.some((regex) => regex.test(text)) &&
+        terms.some((regex) => regex.test(text)),
+    );
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+export const startRun = (scenario: CompiledScenario): ScenarioRun => ({
+  scenarioId: scenario.definition.id,
+  nodeId: scenario.definition.start,
+  asked: false,
+  retries: 0,
+  answered: 0,
+  outcome: null,
+});
+
+// Put the start question once the character is ready to listen
+export const askRun = (
+  scenario: CompiledScenario,
+  run: ScenarioRun,
+): ScenarioTurn => ({
+  kind: "ask",
+  run: { ...run, asked: true },
+  lines: [lineFor(scenario, run.nodeId)],
+  state: nodeAt(scenario, run.nodeId).node.state,
+  endChat: false,
+});
+
+export const answerRun = (
+  scenario: CompiledScenario,
+  run: ScenarioRun,
+  alternatives: RecognitionAlternative[],
+): ScenarioTurn => {
+  const { node, branches } = nodeAt(scenario, run.nodeId);
+  const key = `scenario:${scenario.definition.id}:${run.nodeId}`;
+
+  const index = matchBranch(branches, alternatives);
+  if (index !== -1) {
+    const { acknowledge, next } = branches[index].branch;
+    return enter(
+      scenario,
+      run,
+      next,
+      acknowledge
+        ? [{ key: `${key}:${index}`, set: { responses: acknowledge } }]
+        : [],
+    );
+  }
+
+  if (node.otherwise !== undefined) {
+    return enter(scenario, run, node.otherwise, []);
+  }
+
+  if (node.onExhausted === undefined) {
+    // compileScenario makes sure a question has one or the other
+    throw new ScenarioError(scenario.definition.id, `"${run.nodeId}" is stuck`);
+  }
+  if (run.retries >= (node.maxRetries ?? DEFAULT_MAX_RETRIES)) {
+    return enter(scenario, run, node.onExhausted, []);
+  }
+
+  return {
+    kind: "retry",
+    run: { ...run, retries: run.retries + 1 },
+    lines: [
+      {
+        key: `${key}:retry`,
+        set: { responses: node.retry ?? scenario.definition.retry },
+      },
+    ],
+    endChat: false,
+  };
+};
+
+// Where the run is: the question being asked (1-based) out of the fewest
+// questions it can take from here. The total can change with the branch.
+export const runProgress = (scenario: CompiledScenario, run: ScenarioRun) => ({
+  step: run.answered + 1,
+  total: run.answered + (scenario.remaining.get(run.nodeId) ?? 0),
+});
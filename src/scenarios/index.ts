@@ -0,0 +1,36 @@
+import type { Locale, ScenarioDefinition } from "../types";
+import gettingToKnowYou from "./gettingToKnowYou.json";
+import greetingsDrillJa from "./greetingsDrill.ja.json";
+import { compileScenario, type CompiledScenario } from "./engine";
+
+export {
+  compileScenario,
+  startRun,
+  askRun,
+  answerRun,
+  runProgress,
+  ABANDONED,
+  ScenarioError,
+} from "./engine";
+export type { CompiledScenario, ScenarioLine, ScenarioTurn } from "./engine";
+
+// Scenarios are data, like intents: add a JSON file and list it here.
+// They're compiled up front so a broken graph fails at startup.
+export const scenarios: CompiledScenario[] = [
+  gettingToKnowYou as ScenarioDefinition,
+  greetingsDrillJa as ScenarioDefinition,
+].map(compileScenario);
+
+export const findScenario = (id: string | null | undefined) =>
+  scenarios.find((scenario) => scenario.definition.id === id) ?? null;
+
+// The picker only offers scenarios written in the chat's language
+export const scenariosFor = (locale: Locale) =>
+  scenarios.filter((scenario) => scenario.definition.locale === locale);
+
+// `?scenario=getting-to-know-you` starts the chat with that scenario picked
+export const getInitialScenarioId = (): string | null => {
+  if (typeof window === "undefined") return null;
+  const requested = new URLSearchParams(window.location.search).get("scenario");
+  return findScenario(requested) ? requested : null;
+};
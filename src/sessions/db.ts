@@ -0,0 +1,70 @@
+// ============================================
+// Minimal promise wrapper around IndexedDB
+// ============================================
+
+const DB_NAME = "virtual-chat-simulator";
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = "sessions";
+// Added in version 2 - the analytics event buffer
+export const ANALYTICS_STORE = "analytics";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+    sessions.createIndex("startedAt", "startedAt");
+  }
+  if (!db.objectStoreNames.contains(ANALYTICS_STORE)) {
+    db.createObjectStore(ANALYTICS_STORE, { autoIncrement: true });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let the next call retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `fn` inside a transaction and resolve once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,278 @@
+import type { ChatSession, TranscriptEntry } from "../types";
+
+// ============================================
+// Session export (JSON, Markdown, SRT, WebVTT) and JSON import
+// ============================================
+
+export type ExportFormat = "json" | "markdown" | "srt" | "vtt";
+
+export const EXPORT_FORMAT_ID = "virtual-chat-session";
+export const EXPORT_VERSION = 1;
+
+// Captions last until the next line starts, at most this long
+const MAX_CAPTION_MS = 5000;
+
+const speakerLabel = (entry: TranscriptEntry) =>
+  entry.speaker === "user" ? "You" : "Character";
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// hh:mm:ss<sep>mmm
+const formatClock = (ms: number, separator: "," | ".") => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3_600_000);
+  const minutes = Math.floor((clamped % 3_600_000) / 60_000);
+  const seconds = Math.floor((clamped % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(
+    clamped % 1000,
+    3,
+  )}`;
+};
+
+// ------------------------------------------------------------
+// JSON
+// ------------------------------------------------------------
+export const toJson = (session: ChatSession) =>
+  JSON.stringify(
+    {
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_VERSION,
+      session: {
+        ...session,
+        startedAt: new Date(session.startedAt).toISOString(),
+        endedAt: session.endedAt
+          ? new Date(session.endedAt).toISOString()
+          : null,
+        transcript: session.transcript.map((entry) => ({
+          ...entry,
+          timestamp: entry.timestamp.toISOString(),
+        })),
+        states: session.states.map((visit) => ({
+          ...visit,
+          at: new Date(visit.at).toISOString(),
+        })),
+      },
+    },
+    null,
+    2,
+  );
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+const toMs = (value: unknown, field: string) => {
+  const ms = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(ms)) {
+    throw new SessionImportError(`${field} must be an ISO date`);
+  }
+  return ms;
+};
+
+// Optional, so a malformed one is dropped rather than failing the import
+const isScenarioSummary = (
+  value: unknown,
+): value is NonNullable<ChatSession["scenario"]> => {
+  const scenario = value as Record<string, unknown> | null | undefined;
+  return (
+    typeof scenario?.id === "string" &&
+    (scenario.outcome === null || typeof scenario.outcome === "string")
+  );
+};
+
+// Inverse of toJson. Validates the shape so a bad file can't end up in the
+// history panel.
+export const parseSessionJson = (text: string): ChatSession => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SessionImportError("File is not valid JSON");
+  }
+
+  const doc = raw as { format?: unknown; version?: unknown; session?: unknown };
+  if (doc?.format !== EXPORT_FORMAT_ID) {
+    throw new SessionImportError("Not a conversation export");
+  }
+  if (doc.version !== EXPORT_VERSION) {
+    throw new SessionImportError(
+      `Unsupported export version ${JSON.stringify(doc.version)}`,
+    );
+  }
+
+  const s = doc.session as Record<string, unknown> | undefined;
+  if (!s || typeof s.id !== "string" || typeof s.characterId !== "string") {
+    throw new SessionImportError("session.id and characterId are required");
+  }
+  if (!Array.isArray(s.transcript) || !Array.isArray(s.states)) {
+    throw new SessionImportError(
+      "session.transcript and states must be arrays",
+    );
+  }
+
+  return {
+    id: s.id,
+    characterId: s.characterId,
+    startedAt: toMs(s.startedAt, "session.startedAt"),
+    endedAt: s.endedAt == null ? null : toMs(s.endedAt, "session.endedAt"),
+    transcript: s.transcript.map((entry, i) => {
+      if (
+        typeof entry?.id !== "string" ||
+        typeof entry.text !== "string" ||
+        (entry.speaker !== "user" && entry.speaker !== "character")
+      ) {
+        throw new SessionImportError(`session.transcript[${i}] is malformed`);
+      }
+      return {
+        id: entry.id,
+        speaker: entry.speaker,
+        text: entry.text,
+        timestamp: new Date(
+          toMs(entry.timestamp, `session.transcript[${i}].timestamp`),
+        ),
+      };
+    }),
+    inactivityPrompts:
+      typeof s.inactivityPrompts === "number" ? s.inactivityPrompts : 0,
+    ...(isScenarioSummary(s.scenario) && { scenario: s.scenario }),
+    states: s.states.map((visit, i) => {
+      if (typeof visit?.state !== "string") {
+        throw new SessionImportError(`session.states[${i}] is malformed`);
+      }
+      return {
+        state: visit.state,
+        at: toMs(visit.at, `session.states[${i}].at`),
+      };
+    }),
+  };
+};
+
+// ------------------------------------------------------------
+// Markdown
+// ------------------------------------------------------------
+export const toMarkdown = (session: ChatSession) => {
+  const lines = [
+    `# Conversation - ${new Date(session.startedAt).toLocaleString()}`,
+    "",
+    `- Character: ${session.characterId}`,
+    `- Started: ${new Date(session.startedAt).toISOString()}`,
+    `- Ended: ${
+      session.endedAt ? new Date(session.endedAt).toISOString() : "unfinished"
+    }`,
+    `- States: ${session.states.map((visit) => visit.state).join(" → ")}`,
+    // Sessions saved before prompts were counted don't have the field
+    `- Inactivity prompts: ${session.inactivityPrompts ?? 0}`,
+    ...(session.scenario
+      ? [
+          `- Scenario: ${session.scenario.id} (${
+            session.scenario.outcome ?? "in progress"
+          })`,
+        ]
+      : []),
+    "",
+    "## Transcript",
+    "",
+  ];
+
+  // mm:ss, or hh:mm:ss once the chat runs past an hour - so the
+  // timestamps still sort
+  const offsets = session.transcript.map(
+    (entry) => entry.timestamp.getTime() - session.startedAt,
+  );
+  const withHours = offsets.some((offset) => offset >= 3_600_000);
+
+  session.transcript.forEach((entry, i) => {
+    const clock = formatClock(offsets[i], ".");
+    const offset = withHours ? clock.slice(0, 8) : clock.slice(3, 8);
+    lines.push(`**[${offset}] ${speakerLabel(entry)}:** ${entry.text}`, "");
+  });
+
+  return lines.join("\n");
+};
+
+// ------------------------------------------------------------
+// Captions (SRT / WebVTT), timed relative to chat start
+// ------------------------------------------------------------
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cues never overlap: each one ends where the next begins. Lines with the
+// same timestamp share a cue rather than getting an empty one each.
+const buildCues = (session: ChatSession): Cue[] => {
+  const cues: Cue[] = [];
+  for (const entry of session.transcript) {
+    const start = entry.timestamp.getTime() - session.startedAt;
+    const text = `${speakerLabel(entry)}: ${entry.text}`;
+    const previous = cues.at(-1);
+    if (previous && start <= previous.start) {
+      previous.text += `\n${text}`;
+      continue;
+    }
+    if (previous) previous.end = Math.min(previous.end, start);
+    cues.push({ start, end: start + MAX_CAPTION_MS, text });
+  }
+  return cues;
+};
+
+export const toSrt = (session: ChatSession) =>
+  buildCues(session)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatClock(cue.start, ",")} --> ${formatClock(
+          cue.end,
+          ",",
+        )}\n${cue.text}\n`,
+    )
+    .join("\n");
+
+export const toWebVtt = (session: ChatSession) =>
+  [
+    "WEBVTT",
+    "",
+    ...buildCues(session).map(
+      (cue) =>
+        `${formatClock(cue.start, ".")} --> ${formatClock(
+          cue.end,
+          ".",
+        )}\n${cue.text}\n`,
+    ),
+  ].join("\n");
+
+// ------------------------------------------------------------
+// Download
+// ------------------------------------------------------------
+const FORMATS: Record<
+  ExportFormat,
+  {
+    extension: string;
+    mime: string;
+    serialize: (session: ChatSession) => string;
+  }
+> = {
+  json: { extension: "json", mime: "application/json", serialize: toJson },
+  markdown: { extension: "md", mime: "text/markdown", serialize: toMarkdown },
+  srt: { extension: "srt", mime: "application/x-subrip", serialize: toSrt },
+  vtt: { extension: "vtt", mime: "text/vtt", serialize: toWebVtt },
+};
+
+export const downloadSession = (session: ChatSession, format: ExportFormat) => {
+  const { extension, mime, serialize } = FORMATS[format];
+  const blob = new Blob([serialize(session)], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const stamp = new Date(session.startedAt)
+    .toISOString()
+    .replace(/[:.]/g, "-")
+    .slice(0, 19);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `conversation-${stamp}.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
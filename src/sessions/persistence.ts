@@ -0,0 +1,79 @@
+import type { ChatStoreApi } from "../store/chatStore";
+import type { ChatSession, ChatState } from "../types";
+import { enforceRetention, saveSession } from "./sessionRepository";
+
+const SAVE_DEBOUNCE = 500;
+
+// The current conversation as a session record (null outside a chat)
+export const snapshotSession = (state: ChatState): ChatSession | null => {
+  if (!state.sessionId || !state.sessionStartedAt || !state.character) {
+    return null;
+  }
+
+  const reachedEnd = state.currentState === state.character.endState;
+  return {
+    id: state.sessionId,
+    characterId: state.character.id,
+    startedAt: state.sessionStartedAt,
+    endedAt: reachedEnd ? (state.stateSequence.at(-1)?.at ?? Date.now()) : null,
+    transcript: state.transcript,
+    states: state.stateSequence,
+    inactivityPrompts: state.inactivityPrompts,
+    ...(state.scenarioRun && {
+      scenario: {
+        id: state.scenarioRun.scenarioId,
+        outcome: state.scenarioRun.outcome,
+      },
+    }),
+  };
+};
+
+// Mirror the live conversation into IndexedDB. Saves are debounced while the
+// chat runs and flushed as soon as the end state is reached, so a reload
+// loses at most half a second. Replays aren't conversations and aren't
+// saved. Returns an unsubscribe function.
+export const persistSessions = (store: ChatStoreApi) => {
+  let pending: ChatSession | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const session = pending;
+    pending = null;
+    saveSession(session)
+      .then(() => (session.endedAt ? enforceRetention(session.id) : null))
+      .catch((e) => console.error("❌ Failed to save session:", e));
+  };
+
+  const unsubscribe = store.subscribe((state, prev) => {
+    if (state.isReplaying) return;
+    if (
+      state.transcript === prev.transcript &&
+      state.stateSequence === prev.stateSequence
+    ) {
+      return;
+    }
+
+    const session = snapshotSession(state);
+    if (!session) return;
+
+    pending = session;
+    const reachedEnd = session.endedAt !== null;
+
+    if (reachedEnd) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(flush, SAVE_DEBOUNCE);
+    }
+  });
+
+  return () => {
+    flush();
+    unsubscribe();
+  };
+};
@@ -0,0 +1,96 @@
+import type { ChatSession } from "../types";
+import { SESSIONS_STORE, requestToPromise, withStore } from "./db";
+
+// ============================================
+// Saved conversations - CRUD, search and retention
+// ============================================
+
+export const RETENTION = {
+  maxSessions: 50,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+  maxTotalBytes: 5 * 1024 * 1024, // ~5 MB of serialized sessions
+};
+
+// Rough size used for the quota - IndexedDB doesn't report per-record size
+const estimateSize = (session: ChatSession) =>
+  JSON.stringify(session).length * 2; // UTF-16
+
+export const saveSession = (session: ChatSession) =>
+  withStore(SESSIONS_STORE, "readwrite", (store) =>
+    requestToPromise(store.put(session)).then(() => undefined),
+  );
+
+export const getSession = (id: string) =>
+  withStore(SESSIONS_STORE, "readonly", (store) =>
+    requestToPromise(store.get(id) as IDBRequest<ChatSession | undefined>),
+  );
+
+export const deleteSession = (id: string) =>
+  withStore(SESSIONS_STORE, "readwrite", (store) =>
+    requestToPromise(store.delete(id)).then(() => undefined),
+  );
+
+// Newest first
+export const listSessions = async (): Promise<ChatSession[]> => {
+  const sessions = await withStore(SESSIONS_STORE, "readonly", (store) =>
+    requestToPromise(store.getAll() as IDBRequest<ChatSession[]>),
+  );
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// Case-insensitive match on any transcript line
+export const searchSessions = async (query: string): Promise<ChatSession[]> => {
+  const sessions = await listSessions();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+
+  return sessions.filter((session) =>
+    session.transcript.some((entry) =>
+      entry.text.toLowerCase().includes(needle),
+    ),
+  );
+};
+
+// Drop sessions that are too old, then the oldest ones until we're under
+// both the count and size limits. The active session is never removed.
+export const enforceRetention = async (
+  activeSessionId: string | null = null,
+  now = Date.now(),
+  limits = RETENTION,
+): Promise<string[]> => {
+  const sessions = await listSessions();
+  const removed: string[] = [];
+  const kept: ChatSession[] = [];
+
+  for (const session of sessions) {
+    if (
+      session.id !== activeSessionId &&
+      now - session.startedAt > limits.maxAgeMs
+    ) {
+      removed.push(session.id);
+    } else {
+      kept.push(session);
+    }
+  }
+
+  let totalBytes = kept.reduce((sum, s) => sum + estimateSize(s), 0);
+  // kept is newest first - evict from the end
+  for (let i = kept.length - 1; i >= 0; i--) {
+    const remaining = sessions.length - removed.length;
+    if (remaining <= limits.maxSessions && totalBytes <= limits.maxTotalBytes) {
+      break;
+    }
+    if (kept[i].id === activeSessionId) continue;
+
+    removed.push(kept[i].id);
+    totalBytes -= estimateSize(kept[i]);
+  }
+
+  if (removed.length > 0) {
+    await withStore(SESSIONS_STORE, "readwrite", (store) => {
+      removed.forEach((id) => store.delete(id));
+    });
+  }
+
+  return removed;
+};
@@ -0,0 +1,77 @@
+import { createContext, useContext } from "react";
+import { useStore } from "zustand";
+import {
+  createChatStore,
+  type ChatStore,
+  type ChatStoreApi,
+  type ChatStoreOptions,
+} from "./chatStore";
+import { createRecorder, type Recorder } from "../replay/recorder";
+import type { ReplayTargets } from "../replay/targets";
+import type { DiagnosticsProbes } from "../diagnostics/probes";
+
+// ============================================
+// Chat instance - everything one <VirtualChat> owns, so several can run on
+// a page without sharing a conversation
+// ============================================
+
+// Registered by useConversationInput for integrations that drive the chat
+// from outside (see src/embed/bridge.ts)
+export interface InputControls {
+  // Feed text through the utterance pipeline as if the user had said it.
+  // Returns false when the chat isn't listening.
+  inject?: (text: string) => boolean;
+}
+
+export interface ChatInstance {
+  store: ChatStoreApi;
+  recorder: Recorder;
+  replayTargets: ReplayTargets;
+  diagnosticsProbes: DiagnosticsProbes;
+  inputControls: InputControls;
+}
+
+export const createChatInstance = (
+  options: Omit<ChatStoreOptions, "recorder"> = {},
+): ChatInstance => {
+  const recorder = createRecorder();
+  return {
+    store: createChatStore({ ...options, recorder }),
+    recorder,
+    replayTargets: {},
+    diagnosticsProbes: {},
+    inputControls: {},
+  };
+};
+
+export const ChatContext = createContext<ChatInstance | null>(null);
+
+export const useChatInstance = () => {
+  const instance = useContext(ChatContext);
+  if (!instance) {
+    throw new Error("Chat components must be rendered inside <VirtualChat>");
+  }
+  return instance;
+};
+
+// The store of the surrounding <VirtualChat>. Without a selector the
+// component re-renders on every change.
+export function useChatStore(): ChatStore;
+export function useChatStore<T>(selector: (state: ChatStore) => T): T;
+export function useChatStore<T>(selector?: (state: ChatStore) => T) {
+  const { store } = useChatInstance();
+  return useStore(store, selector ?? ((state) => state as T));
+}
+
+// Puts a mounted hook's or component's handlers on one of the instance's
+// registries (replay targets, diagnostics probes). Returns the cleanup.
+export const registerOn = <T extends object, K extends keyof T>(
+  registry: T,
+  key: K,
+  value: T[K],
+) => {
+  registry[key] = value;
+  return () => {
+    if (registry[key] === value) registry[key] = undefined as T[K];
+  };
+};
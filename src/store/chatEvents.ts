@@ -0,0 +1,42 @@
+import type { ChatSession, TranscriptEntry, VideoState } from "../types";
+import type { ChatStoreApi } from "./chatStore";
+import { snapshotSession } from "../sessions/persistence";
+
+// What integrations (VirtualChat props, the embed bridge) hear about a chat
+export interface ChatEventHandlers {
+  onTranscript?: (entry: TranscriptEntry) => void;
+  onStateChange?: (to: VideoState, from: VideoState) => void;
+  // The finished conversation, when the chat goes inactive
+  onSessionEnd?: (session: ChatSession) => void;
+}
+
+// Turns store changes into chat events. `handlers` is read on every change,
+// so a getter can hand out the latest callbacks. A replay re-enacts an old
+// chat, so it stays quiet. Returns the unsubscribe.
+export const subscribeChatEvents = (
+  store: ChatStoreApi,
+  handlers: () => ChatEventHandlers,
+) =>
+  store.subscribe((state, prev) => {
+    if (state.isReplaying || prev.isReplaying) return;
+    const { onTranscript, onStateChange, onSessionEnd } = handlers();
+
+    if (
+      state.transcript !== prev.transcript &&
+      state.transcript.length > prev.transcript.length
+    ) {
+      state.transcript
+        .slice(prev.transcript.length)
+        .forEach((entry) => onTranscript?.(entry));
+    }
+
+    if (state.currentState !== prev.currentState) {
+      onStateChange?.(state.currentState, prev.currentState);
+    }
+
+    if (prev.isActive && !state.isActive) {
+      // A reset clears the session - fall back to what it was before
+      const session = snapshotSession(state) ?? snapshotSession(prev);
+      if (session) onSessionEnd?.(session);
+    }
+  });
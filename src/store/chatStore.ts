@@ -1,66 +1,505 @@
-import { create } from "zustand";
-import type { VideoState, TranscriptEntry, ChatState } from "../types";
+import { createStore, type StoreApi } from "zustand";
+import type {
+  VideoState,
+  TranscriptEntry,
+  ChatState,
+  CharacterManifest,
+  InputIssue,
+  InputMode,
+  ListeningMode,
+  Locale,
+  ResponseSet,
+  ScenarioRun,
+} from "../types";
 import { v4 as uuidv4 } from "uuid";
+import { loadManifest, parseManifest } from "../characters/manifest";
+import { appendHistory, evaluateTransition } from "./stateMachine";
+import {
+  getInitialContinuous,
+  getInitialInputMode,
+  getInitialListeningMode,
+} from "../input";
+import { getInitialLocale, saveLocale } from "../i18n";
+import type { Recorder } from "../replay/recorder";
+import {
+  buildTemplateVars,
+  renderTemplate,
+  selectResponse,
+  type TemplateVars,
+} from "../responses/templates";
+import { analytics, type AnalyticsContext } from "../analytics";
+import {
+  ABANDONED,
+  findScenario,
+  getInitialScenarioId,
+  startRun,
+} from "../scenarios";
 
 const generateUniqueId = () => uuidv4();
 
 interface ChatActions {
-  setState: (state: VideoState) => void;
+  // Returns false when the state machine rejects the move
+  setState: (state: VideoState, source?: string) => boolean;
   startChat: () => void;
-  endChat: () => void;
+  // `source` is "endChat" for the button; other ends (e.g. "inactivity")
+  // are replayed from the timer that caused them, so they aren't recorded
+  endChat: (source?: string) => void;
   addTranscript: (entry: Omit<TranscriptEntry, "id" | "timestamp">) => void;
   setListening: (listening: boolean) => void;
+  setInterimTranscript: (text: string) => void;
   setSilenceTimer: (timer: number | null) => void;
   resetChat: () => void;
   setCharacterSpeaking: (speaking: boolean) => void;
+  setCharacter: (manifest: CharacterManifest) => void;
+  // A manifest URL (default: VITE_CHARACTER_MANIFEST or the default pack),
+  // or a manifest object that still needs validating
+  loadCharacter: (source?: string | CharacterManifest) => Promise<void>;
+  setInputMode: (mode: InputMode) => void;
+  setListeningMode: (mode: ListeningMode) => void;
+  setContinuousListening: (enabled: boolean) => void;
+  // The talk button or spacebar went down / up (push-to-talk)
+  setTalkHeld: (held: boolean) => void;
+  // `save: false` switches without remembering it (replays)
+  setLocale: (locale: Locale, options?: { save?: boolean }) => void;
+  // Pick a guided scenario for the next chat (null = free conversation)
+  setScenario: (scenarioId: string | null) => void;
+  setScenarioRun: (run: ScenarioRun) => void;
+  setReplaying: (replaying: boolean) => void;
+  rememberFacts: (facts: Record<string, string>) => void;
+  countInactivityPrompt: () => void;
+  setInputIssue: (issue: InputIssue | null) => void;
+  setAudioDevice: (deviceId: string | null) => void;
+  // Pick and render a variant for `key`, remembering it to avoid repeats.
+  // `vars` adds to the built-in and remembered variables.
+  respond: (key: string, set: ResponseSet, vars?: TemplateVars) => string;
 }
 
+export type ChatStore = ChatState & ChatActions;
+export type ChatStoreApi = StoreApi<ChatStore>;
+
+export interface ChatStoreOptions {
+  recorder: Recorder;
+  // Defaults come from the URL, saved settings and the browser
+  inputMode?: InputMode;
+  listeningMode?: ListeningMode;
+  continuousListening?: boolean;
+  locale?: Locale;
+  scenarioId?: string | null;
+}
+
+// Tags analytics events with the session; replays aren't reported
+export const analyticsContext = (state: ChatState): AnalyticsContext => ({
+  sessionId: state.sessionId,
+  muted: state.isReplaying,
+});
+
 const initialState: ChatState = {
   currentState: "idle",
   isActive: false,
   transcript: [],
   isListening: false,
+  interimTranscript: "",
   silenceTimer: null,
   isCharacterSpeaking: false,
+  character: null,
+  characterError: null,
+  listeningEnabled: false,
+  transitionHistory: [],
+  inputMode: getInitialInputMode(),
+  listeningMode: getInitialListeningMode(),
+  continuousListening: getInitialContinuous(),
+  isTalkHeld: false,
+  locale: getInitialLocale(),
+  sessionId: null,
+  sessionStartedAt: null,
+  stateSequence: [],
+  isReplaying: false,
+  memory: {},
+  lastResponseIndex: {},
+  inactivityPrompts: 0,
+  inputIssue: null,
+  audioDeviceId: null,
+  scenarioId: getInitialScenarioId(),
+  scenarioRun: null,
 };
 
-export const useChatStore = create<ChatState & ChatActions>((set) => ({
-  ...initialState,
+// One store per chat instance (see chatContext.ts)
+export const createChatStore = ({
+  recorder,
+  inputMode = getInitialInputMode(),
+  listeningMode = getInitialListeningMode(),
+  continuousListening = getInitialContinuous(),
+  locale = getInitialLocale(),
+  scenarioId = getInitialScenarioId(),
+}: ChatStoreOptions): ChatStoreApi =>
+  createStore<ChatStore>((set, get) => {
+    // Run a move through the state machine, apply its effects and log it.
+    // `patch` is applied together with the new state (e.g. isActive).
+    const transition = (
+      to: VideoState,
+      source: string,
+      patch: Partial<ChatState> = {},
+    ): boolean => {
+      const { character, currentState, isActive, transitionHistory } = get();
+      const { sessionId, stateSequence } = { ...get(), ...patch };
+      if (!character) {
+        console.warn(`⚠ No character loaded, ignoring "${to}" (${source})`);
+        return false;
+      }
+
+      const result = evaluateTransition({
+        from: currentState,
+        to,
+        isActive: patch.isActive ?? isActive,
+        character,
+      });
+      const record = {
+        from: currentState,
+        to,
+        at: Date.now(),
+        accepted: result.ok,
+        source,
+      };
 
-  setState: (state) => set({ currentState: state }),
+      if (!result.ok) {
+        console.warn(
+          `⚠ Rejected transition ${currentState} → ${to} (${source}): ${result.reason}`,
+        );
+        set({
+          transitionHistory: appendHistory(transitionHistory, {
+            ...record,
+            reason: result.reason,
+          }),
+        });
+        analytics.emit(
+          {
+            type: "stateTransition",
+            from: currentState,
+            to,
+            source,
+            accepted: false,
+            reason: result.reason,
+          },
+          analyticsContext(get()),
+        );
+        return false;
+      }
+
+      const effects: Partial<ChatState> = {};
+      for (const effect of result.effects) {
+        switch (effect) {
+          case "startListening":
+            effects.listeningEnabled = true;
+            break;
+          case "stopListening":
+            effects.listeningEnabled = false;
+            break;
+          case "blockMic":
+            effects.isCharacterSpeaking = true;
+            break;
+        }
+      }
+
+      set({
+        ...patch,
+        ...effects,
+        currentState: to,
+        transitionHistory: appendHistory(transitionHistory, record),
+        stateSequence: sessionId
+          ? [...stateSequence, { state: to, at: record.at }]
+          : stateSequence,
+      });
+      analytics.emit(
+        {
+          type: "stateTransition",
+          from: currentState,
+          to,
+          source,
+          accepted: true,
+        },
+        analyticsContext(get()),
+      );
+      return true;
+    };
 
-  startChat: () =>
-    set({
-      isActive: true,
-      currentState: "greeting",
-    }),
+    const reportScenarioEnd = (run: ScenarioRun) =>
+      analytics.emit(
+        {
+          type: "scenarioEnded",
+          scenarioId: run.scenarioId,
+          outcome: run.outcome ?? ABANDONED,
+          answered: run.answered,
+        },
+        analyticsContext(get()),
+      );
 
-  endChat: () =>
-    set({
-      isActive: false,
-      currentState: "goodbye",
-      silenceTimer: null,
-    }),
+    // A scenario still waiting on answers was walked away from
+    const abandonedRun = (run: ScenarioRun | null) =>
+      run && !run.outcome ? { ...run, outcome: ABANDONED } : null;
 
-  addTranscript: (entry) =>
-    set((state) => ({
-      transcript: [
-        ...state.transcript,
+    // Called before the session is cleared, so the events still carry it
+    const reportChatEnd = (reason: string, abandoned: ScenarioRun | null) => {
+      const { sessionStartedAt, transcript } = get();
+      if (abandoned) reportScenarioEnd(abandoned);
+      analytics.emit(
         {
-          ...entry,
-          id: generateUniqueId(),
-          timestamp: new Date(),
+          type: "chatEnded",
+          reason,
+          durationMs: sessionStartedAt ? Date.now() - sessionStartedAt : 0,
+          userTurns: transcript.filter((entry) => entry.speaker === "user")
+            .length,
         },
-      ],
-    })),
+        analyticsContext(get()),
+      );
+    };
+
+    return {
+      ...initialState,
+      inputMode,
+      listeningMode,
+      continuousListening,
+      locale,
+      scenarioId,
+
+      setState: (state, source = "setState") => transition(state, source),
+
+      startChat: () => {
+        const { character, inputMode, locale, listeningMode, scenarioId } =
+          get();
+        if (!character) return;
+        // Only a scenario written for this language runs
+        const scenario = findScenario(scenarioId);
+        const run =
+          scenario?.definition.locale === locale ? startRun(scenario) : null;
+        const started = transition(character.startState, "startChat", {
+          isActive: true,
+          sessionId: generateUniqueId(),
+          sessionStartedAt: Date.now(),
+          stateSequence: [],
+          inputIssue: null,
+          isTalkHeld: false,
+          scenarioRun: run,
+        });
+        if (started) {
+          recorder.begin({
+            characterId: character.id,
+            inputMode,
+            locale,
+            listeningMode,
+            scenarioId: run?.scenarioId ?? null,
+          });
+          recorder.record({ type: "startChat" });
+          analytics.emit(
+            {
+              type: "chatStarted",
+              characterId: character.id,
+              inputMode,
+              listeningMode,
+              locale,
+            },
+            analyticsContext(get()),
+          );
+        }
+      },
+
+      endChat: (source = "endChat") => {
+        const { character, scenarioRun } = get();
+        if (!character) return;
+        if (source === "endChat") recorder.record({ type: "endChat" });
+        const abandoned = abandonedRun(scenarioRun);
+        const ended = transition(character.endState, source, {
+          isActive: false,
+          silenceTimer: null,
+          inputIssue: null,
+          isTalkHeld: false,
+          ...(abandoned && { scenarioRun: abandoned }),
+        });
+        if (ended) reportChatEnd(source, abandoned);
+      },
+
+      addTranscript: (entry) =>
+        set((state) => ({
+          transcript: [
+            ...state.transcript,
+            {
+              ...entry,
+              id: generateUniqueId(),
+              timestamp: new Date(),
+            },
+          ],
+        })),
+
+      setListening: (listening) => set({ isListening: listening }),
+
+      setInterimTranscript: (text) => set({ interimTranscript: text }),
+
+      setSilenceTimer: (timer) => set({ silenceTimer: timer }),
+
+      setCharacterSpeaking: (speaking) =>
+        set({ isCharacterSpeaking: speaking }),
+
+      setCharacter: (manifest) =>
+        set({
+          character: manifest,
+          characterError: null,
+          currentState: manifest.initialState,
+        }),
+
+      loadCharacter: async (source) => {
+        try {
+          get().setCharacter(
+            typeof source === "object"
+              ? parseManifest(source, "manifest prop")
+              : await loadManifest(source),
+          );
+        } catch (e) {
+          console.error("❌ Failed to load character:", e);
+          set({ character: null, characterError: (e as Error).message });
+        }
+      },
+
+      // Switching providers mid-conversation would drop the current turn
+      setInputMode: (mode) => {
+        if (get().isActive) return;
+        set({ inputMode: mode });
+      },
+
+      setListeningMode: (mode) => {
+        if (get().isActive) return;
+        set({ listeningMode: mode });
+      },
+
+      // The recognizer is set up for a whole chat
+      setContinuousListening: (enabled) => {
+        if (get().isActive) return;
+        set({ continuousListening: enabled });
+      },
+
+      setTalkHeld: (held) => {
+        if (get().isTalkHeld === held) return;
+        recorder.record({ type: "talk", held });
+        set({ isTalkHeld: held });
+      },
+
+      // Same as the input mode: intents and the recognizer can't change mid-turn
+      setLocale: (locale, { save = true } = {}) => {
+        if (get().isActive) return;
+        if (save) saveLocale(locale);
+        // Scenarios are written for one language
+        const scenario = findScenario(get().scenarioId);
+        set({
+          locale,
+          ...(scenario?.definition.locale !== locale && { scenarioId: null }),
+        });
+      },
+
+      setScenario: (scenarioId) => {
+        if (get().isActive) return;
+        set({ scenarioId });
+      },
+
+      setScenarioRun: (run) => {
+        const previous = get().scenarioRun;
+        set({ scenarioRun: run });
+        if (run.outcome && !previous?.outcome) reportScenarioEnd(run);
+      },
+
+      setReplaying: (replaying) => set({ isReplaying: replaying }),
+
+      rememberFacts: (facts) => {
+        if (Object.keys(facts).length === 0) return;
+        set((state) => ({ memory: { ...state.memory, ...facts } }));
+      },
+
+      countInactivityPrompt: () =>
+        set((state) => ({ inactivityPrompts: state.inactivityPrompts + 1 })),
+
+      setInputIssue: (issue) => set({ inputIssue: issue }),
+
+      // Kept across chats, like the input mode
+      setAudioDevice: (deviceId) => set({ audioDeviceId: deviceId }),
+
+      respond: (key, responseSet, vars) => {
+        const state = get();
+        const allVars = { ...buildTemplateVars(state), ...vars };
 
-  setListening: (listening) => set({ isListening: listening }),
+        // A replay says what the recording said, if that line still renders
+        const recorded = state.isReplaying
+          ? recorder.nextReplayedResponse(key)
+          : undefined;
+        const recordedTemplate =
+          recorded === undefined ? undefined : responseSet.responses[recorded];
+        const recordedText =
+          recordedTemplate === undefined
+            ? null
+            : renderTemplate(recordedTemplate, allVars);
+        const picked =
+          recorded !== undefined && recordedText !== null
+            ? { text: recordedText, index: recorded }
+            : selectResponse(
+                responseSet,
+                allVars,
+                state.lastResponseIndex[key],
+              );
+        // compileIntents guarantees a renderable variant; this is a safety net
+        if (!picked) return responseSet.responses[0];
 
-  setSilenceTimer: (timer) => set({ silenceTimer: timer }),
+        recorder.record({ type: "response", key, index: picked.index });
 
-  setCharacterSpeaking: (speaking) => set({ isCharacterSpeaking: speaking }),
+        set({
+          lastResponseIndex: {
+            ...state.lastResponseIndex,
+            [key]: picked.index,
+          },
+        });
+        return picked.text;
+      },
 
-  resetChat: () => {
-    return set(initialState);
-  },
-}));
+      // Keep the loaded character, input settings, replay flag and the debug
+      // history - only the conversation is reset. Always allowed, so it is
+      // logged as forced.
+      resetChat: () => {
+        const {
+          character,
+          currentState,
+          transitionHistory,
+          inputMode,
+          listeningMode,
+          continuousListening,
+          locale,
+          audioDeviceId,
+          scenarioId,
+          isActive,
+          scenarioRun,
+        } = get();
+        const to = character?.initialState ?? initialState.currentState;
+        // A chat that ends with a goodbye clip never goes through endChat
+        if (isActive) {
+          reportChatEnd(
+            currentState === character?.endState ? "goodbye" : "reset",
+            abandonedRun(scenarioRun),
+          );
+        }
+        recorder.finish();
+        return set({
+          ...initialState,
+          character,
+          inputMode,
+          listeningMode,
+          continuousListening,
+          locale,
+          audioDeviceId,
+          scenarioId,
+          isReplaying: get().isReplaying,
+          currentState: to,
+          transitionHistory: appendHistory(transitionHistory, {
+            from: currentState,
+            to,
+            at: Date.now(),
+            accepted: true,
+            source: "resetChat",
+          }),
+        });
+      },
+    };
+  });
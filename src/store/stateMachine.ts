@@ -0,0 +1,144 @@
+import type {
+  CharacterManifest,
+  TransitionEffect,
+  TransitionRecord,
+  VideoState,
+} from "../types";
+
+// ============================================
+// Conversation state machine
+// Every state change goes through TRANSITIONS. A move that no rule allows,
+// or whose guard fails, is rejected and logged.
+// ============================================
+
+export interface TransitionContext {
+  from: VideoState;
+  to: VideoState;
+  // Values after the move (startChat/endChat flip isActive in the same update)
+  isActive: boolean;
+  character: CharacterManifest;
+}
+
+// Optional state shown while a remote backend works on a reply
+export const THINKING_STATE = "thinking";
+
+// Optional clip for "Did you mean...?" questions. Without it they play the
+// fallback reply's state. Either way it's a reply.
+export const CLARIFY_STATE = "clarify";
+
+// States are manifest-driven, so rules match on roles rather than names
+type Role =
+  "rest" | "start" | "end" | "listening" | "prompt" | "thinking" | "reply";
+
+const roleOf = (state: VideoState, character: CharacterManifest): Role => {
+  if (state === character.initialState) return "rest";
+  if (state === character.startState) return "start";
+  if (state === character.endState) return "end";
+  if (state === "listening") return "listening";
+  if (state === "prompt") return "prompt";
+  if (state === THINKING_STATE) return "thinking";
+  // response, weather, fallback and any intent-specific clip
+  return "reply";
+};
+
+interface TransitionRule {
+  from: Role[];
+  to: Role[];
+  // Return a reason string to reject the move
+  guard?: (ctx: TransitionContext) => string | null;
+  effects: TransitionEffect[];
+}
+
+const requireActive = (ctx: TransitionContext) =>
+  ctx.isActive ? null : "chat is not active";
+
+const CONVERSING: Role[] = ["listening", "prompt", "reply"];
+
+export const TRANSITIONS: TransitionRule[] = [
+  // Start Chat
+  {
+    from: ["rest"],
+    to: ["start"],
+    guard: requireActive,
+    effects: ["stopListening"],
+  },
+  // Greeting finished
+  {
+    from: ["start"],
+    to: ["listening"],
+    guard: requireActive,
+    effects: ["startListening"],
+  },
+  // User spoke, silence prompt, recognition error, clip finished
+  {
+    from: CONVERSING,
+    to: CONVERSING,
+    guard: requireActive,
+    effects: ["startListening"],
+  },
+  // Waiting for the response backend - the mic stays off until it answers
+  {
+    from: CONVERSING,
+    to: ["thinking"],
+    guard: requireActive,
+    effects: ["stopListening"],
+  },
+  {
+    from: ["thinking"],
+    to: CONVERSING,
+    guard: requireActive,
+    effects: ["startListening"],
+  },
+  // User said hello again mid-conversation
+  {
+    from: [...CONVERSING, "thinking"],
+    to: ["start"],
+    guard: requireActive,
+    effects: ["stopListening"],
+  },
+  // Goodbye (spoken or End Chat) is allowed from anywhere in a conversation
+  {
+    from: ["start", "thinking", ...CONVERSING],
+    to: ["end"],
+    effects: ["stopListening", "blockMic"],
+  },
+  // Goodbye clip finished
+  {
+    from: ["end"],
+    to: ["rest"],
+    effects: ["stopListening"],
+  },
+];
+
+export type TransitionResult =
+  | { ok: true; effects: TransitionEffect[] }
+  | { ok: false; reason: string };
+
+export const evaluateTransition = (ctx: TransitionContext): TransitionResult => {
+  // Own keys only, so "constructor" or "toString" never count as states
+  if (!Object.hasOwn(ctx.character.states, ctx.to)) {
+    return { ok: false, reason: `unknown state "${ctx.to}"` };
+  }
+
+  const fromRole = roleOf(ctx.from, ctx.character);
+  const toRole = roleOf(ctx.to, ctx.character);
+  const rule = TRANSITIONS.find(
+    (r) => r.from.includes(fromRole) && r.to.includes(toRole),
+  );
+
+  if (!rule) {
+    return { ok: false, reason: `no rule allows ${fromRole} → ${toRole}` };
+  }
+
+  const rejected = rule.guard?.(ctx);
+  if (rejected) return { ok: false, reason: rejected };
+
+  return { ok: true, effects: rule.effects };
+};
+
+export const MAX_TRANSITION_HISTORY = 100;
+
+export const appendHistory = (
+  history: TransitionRecord[],
+  record: TransitionRecord,
+): TransitionRecord[] => [...history, record].slice(-MAX_TRANSITION_HISTORY);
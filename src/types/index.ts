@@ -1,12 +1,8 @@
-export type VideoState =
-  | "idle"
-  | "greeting"
-  | "listening"
-  | "response"
-  | "weather"
-  | "fallback"
-  | "prompt"
-  | "goodbye";
+// State names come from the character manifest. The conversation logic relies
+// on the core states listed in CORE_STATES (src/characters/manifest.ts).
+export type VideoState = string;
+
+export type Locale = "en" | "ja" | "uz";
 
 export interface TranscriptEntry {
   id: string;
@@ -15,11 +11,557 @@ export interface TranscriptEntry {
   timestamp: Date;
 }
 
+export type OnEndAction =
+  | { type: "transition"; to: VideoState }
+  | { type: "reset"; delayMs?: number };
+
+// A time range of a sprite file, in seconds. The states' segments are the
+// pack's cue sheet.
+export interface ClipSegment {
+  sprite: string;
+  start: number;
+  end: number;
+}
+
+// One encoded file holding the segments of several states
+export interface SpriteSheet {
+  src: string;
+  srcByLocale?: Partial<Record<Locale, string>>;
+}
+
+// A state has its own clip (`src`) or, in a sprite pack, a `segment`
+export interface CharacterStateDefinition {
+  src?: string;
+  // Clip to use instead of `src` for a locale (e.g. a Japanese greeting)
+  srcByLocale?: Partial<Record<Locale, string>>;
+  segment?: ClipSegment;
+  loop?: boolean;
+  muted?: boolean;
+  // Mic stays off while a blocking clip plays
+  blocking?: boolean;
+  // The user can cut this clip short by talking over it (barge-in)
+  interruptible?: boolean;
+  // Tried in order when this state's clip fails to load
+  fallbacks?: VideoState[];
+  // What happens when a non-looping clip finishes
+  onEnd?: OnEndAction;
+  // Seconds into the clip where it can be left without a pose jump (see
+  // ClipTransition.waitForBoundary). Defaults to the loop point.
+  boundaries?: number[];
+}
+
+// How the player moves from one clip to the next. Rules match on the clip
+// being left (`from`) and the one coming (`to`); "*" matches any state.
+export interface ClipTransition {
+  from: VideoState | "*";
+  to: VideoState | "*";
+  // Length of the blend from the old clip into the new one
+  crossfadeMs?: number;
+  // Let a looping clip play on to its next boundary before leaving it
+  waitForBoundary?: boolean;
+  // Longest that wait may take
+  maxWaitMs?: number;
+  // A bridging clip played in between. It must not loop.
+  via?: VideoState;
+}
+
+export interface CharacterManifest {
+  manifestVersion: number;
+  id: string;
+  name: string;
+  initialState: VideoState;
+  startState: VideoState;
+  endState: VideoState;
+  // Sprite packs only: the files the states' segments are cut from
+  sprites?: Record<string, SpriteSheet>;
+  states: Record<VideoState, CharacterStateDefinition>;
+  clipTransitions?: ClipTransition[];
+  // Replaces the default inactivity ladder for this character
+  inactivityLadder?: InactivityStep[];
+}
+
+export type TransitionEffect = "startListening" | "stopListening" | "blockMic";
+
+export interface TransitionRecord {
+  from: VideoState;
+  to: VideoState;
+  at: number;
+  accepted: boolean;
+  // Who asked for the move ("intent", "silence", "videoEnd", ...)
+  source: string;
+  reason?: string;
+}
+
+export type InputMode = "speech" | "text" | "scripted";
+
+// How the microphone is opened in speech mode: whenever the character
+// listens, or only while the user holds the talk button (or spacebar)
+export type ListeningMode = "handsFree" | "pushToTalk";
+
+// One reading of an utterance. `confidence` (0-1) is missing when the
+// recognizer doesn't say; typed text has no alternatives at all.
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence?: number;
+}
+
+// Callbacks every input provider reports through. They all end up in the
+// same utterance pipeline (useConversationInput -> processUtterance).
+export interface InputProviderHandlers {
+  // `alternatives` is the recognizer's n-best list, `text` its first entry
+  onUtterance: (text: string, alternatives?: RecognitionAlternative[]) => void;
+  // Words heard so far in the current utterance ("" clears it). Only
+  // continuous speech recognition reports these.
+  onInterim?: (text: string) => void;
+  onError: (error: string) => void;
+  // The provider stopped on its own or after stop()
+  onEnd: () => void;
+}
+
+export interface InputProvider {
+  mode: InputMode;
+  start: () => void;
+  stop: () => void;
+  dispose: () => void;
+  // Only the text provider accepts typed input
+  submit?: (text: string) => void;
+  // Only the scripted provider has a place to go back to: the first line,
+  // for the next chat
+  rewind?: () => void;
+}
+
+// Input problems the user has to deal with. Listening is paused while one
+// is open (see src/input/errors.ts).
+export type InputIssueKind = "permission" | "device" | "failed";
+
+export interface InputIssue {
+  kind: InputIssueKind;
+  // The raw error code, e.g. "not-allowed"
+  error: string;
+}
+
+export interface ScriptedUtterance {
+  text: string;
+  // Pretend the recognizer wasn't sure (e.g. to exercise clarifications)
+  alternatives?: RecognitionAlternative[];
+  // Wait after the provider starts listening before "saying" this line
+  delayMs?: number;
+}
+
+export interface StateVisit {
+  state: VideoState;
+  at: number;
+}
+
+// One conversation, from startChat to the end state
+export interface ChatSession {
+  id: string;
+  characterId: string;
+  startedAt: number;
+  endedAt: number | null;
+  transcript: TranscriptEntry[];
+  states: StateVisit[];
+  // "Are you still there?" prompts the user needed (see INACTIVITY_LADDER)
+  inactivityPrompts: number;
+  // The guided scenario this chat followed, if any
+  scenario?: { id: string; outcome: string | null };
+}
+
+// Timers whose firing changes the conversation
+export type ConversationTimer = "silence" | "restart" | "listenStart" | "reset";
+
+// `t` is milliseconds since the recording started
+export type RecordedEvent =
+  | { t: number; type: "startChat" }
+  | { t: number; type: "endChat" }
+  | {
+      t: number;
+      type: "utterance";
+      text: string;
+      alternatives?: RecognitionAlternative[];
+    }
+  | { t: number; type: "inputError"; error: string }
+  | { t: number; type: "videoEnd"; state: VideoState }
+  | { t: number; type: "bargeIn" }
+  | { t: number; type: "talk"; held: boolean }
+  | { t: number; type: "timer"; timer: ConversationTimer }
+  // The variant a response set picked, so a replay says the same line
+  | { t: number; type: "response"; key: string; index: number };
+
+export interface SessionRecording {
+  format: "virtual-chat-recording";
+  version: 1;
+  characterId: string;
+  inputMode: InputMode;
+  // Missing in recordings made before locales existed (English)
+  locale?: Locale;
+  // Missing in recordings made before push-to-talk (hands-free)
+  listeningMode?: ListeningMode;
+  // The guided scenario picked for the chat (missing = free conversation)
+  scenarioId?: string;
+  recordedAt: string;
+  events: RecordedEvent[];
+}
+
+// ============================================
+// Weather - live data for the weather intent (see src/weather/)
+// ============================================
+
+// A character pack can have a clip per condition, e.g. "weather-rainy"
+export type WeatherCondition = "sunny" | "cloudy" | "rainy" | "snowy";
+
+export interface WeatherReport {
+  // As the provider names it, for {location}
+  location: string;
+  condition: WeatherCondition;
+  temperatureC: number;
+}
+
+export interface WeatherRequest {
+  // What the user said they're from, or the configured default. Null lets
+  // the provider pick.
+  location: string | null;
+  locale: Locale;
+}
+
+export interface WeatherProvider {
+  name: string;
+  current: (
+    request: WeatherRequest,
+    signal: AbortSignal,
+  ) => Promise<WeatherReport>;
+}
+
+// Templates may use {condition}, {temperature} and {location}
+export interface WeatherResponses extends ResponseSet {
+  // What {condition} says, in the intent's language
+  conditions: Record<WeatherCondition, string>;
+}
+
+export interface BackendRequest {
+  utterance: string;
+  transcript: TranscriptEntry[];
+  currentState: VideoState;
+  memory: Record<string, string>;
+  // So the backend can answer in the user's language
+  locale: Locale;
+}
+
+export interface BackendReply {
+  text: string;
+  // Must be a state the current character declares
+  state: VideoState;
+}
+
+export interface ResponseBackend {
+  name: string;
+  respond: (
+    request: BackendRequest,
+    signal: AbortSignal,
+  ) => Promise<BackendReply>;
+}
+
 export interface ChatState {
   currentState: VideoState;
   isActive: boolean;
   transcript: TranscriptEntry[];
   isListening: boolean;
+  // Live caption of what the user is saying, before it's final
+  interimTranscript: string;
   silenceTimer: number | null;
   isCharacterSpeaking: boolean;
+  character: CharacterManifest | null;
+  characterError: string | null;
+  // Set by transition effects; the recognizer only runs while this is true
+  listeningEnabled: boolean;
+  transitionHistory: TransitionRecord[];
+  inputMode: InputMode;
+  listeningMode: ListeningMode;
+  // Speech recognition stays open across utterances, with live captions
+  // and barge-in
+  continuousListening: boolean;
+  // The talk button or spacebar is down (push-to-talk only)
+  isTalkHeld: boolean;
+  // Recognition language, intents, responses, UI strings and clips
+  locale: Locale;
+  // Current session (null outside a conversation)
+  sessionId: string | null;
+  sessionStartedAt: number | null;
+  stateSequence: StateVisit[];
+  // While true, input and timers come from a recording instead of the mic
+  isReplaying: boolean;
+  // Facts picked up from what the user said this session (e.g. name)
+  memory: Record<string, string>;
+  // Last variant picked per response key, to avoid repeats
+  lastResponseIndex: Record<string, number>;
+  inactivityPrompts: number;
+  inputIssue: InputIssue | null;
+  // Microphone picked in the device picker (null = browser default)
+  audioDeviceId: string | null;
+  // Guided scenario for the next chat (null = free conversation)
+  scenarioId: string | null;
+  // Where this chat is in its scenario
+  scenarioRun: ScenarioRun | null;
+}
+
+export type ResponseMode = "random" | "rotate";
+
+// Several wordings of the same line. Templates may use {variables}; a variant
+// whose variables aren't known yet is skipped.
+export interface ResponseSet {
+  responses: string[];
+  // "random" (default) never repeats the previous pick; "rotate" cycles
+  responseMode?: ResponseMode;
+}
+
+export interface IntentDefinition extends ResponseSet {
+  id: string;
+  // Higher priority wins when several intents match the same utterance
+  priority: number;
+  // Whole words or phrases, matched on word boundaries
+  keywords?: string[];
+  // Alternative wordings, also matched on word boundaries
+  synonyms?: string[];
+  // Regular expression sources (case-insensitive)
+  patterns?: string[];
+  // If any of these match, the intent is ruled out
+  negativePatterns?: string[];
+  targetState: VideoState;
+  // Questions to check an unsure match ("Did you mean the weather?").
+  // Intents without them are never asked about.
+  clarify?: string[];
+  // Ask the weather provider and say one of these instead. The regular
+  // responses are the fallback when it can't answer.
+  weather?: WeatherResponses;
+}
+
+// Pulls a fact out of what the user said. The first capture group of the
+// first matching pattern becomes the value, e.g. "my name is (\p{L}+)".
+export interface MemoryExtractor {
+  key: string;
+  patterns: string[];
+}
+
+export type SystemResponseKey =
+  | "silencePrompt"
+  | "silencePromptAgain"
+  | "silenceGoodbye"
+  // The user said "no" to a clarifying question
+  | "clarifyRejected";
+
+// One rung of the inactivity ladder. `afterMs` counts from the user's last
+// utterance; a "goodbye" rung ends the chat.
+export interface InactivityStep {
+  afterMs: number;
+  action: "prompt" | "goodbye";
+  response: SystemResponseKey;
+}
+
+export interface IntentConfig {
+  // Keywords only match whole words (default). Turn off for languages
+  // written without spaces, like Japanese.
+  matchWholeWords?: boolean;
+  intents: IntentDefinition[];
+  // Used when nothing matches
+  fallback: Omit<IntentDefinition, "priority">;
+  // Lines the character says that aren't replies to an intent
+  systemResponses: Record<SystemResponseKey, ResponseSet>;
+  memory?: MemoryExtractor[];
+  // How the user answers a clarifying question. Matched like keywords.
+  answers: { yes: string[]; no: string[] };
+}
+
+export interface IntentMatch {
+  intentId: string;
+  targetState: VideoState;
+  responses: string[];
+  responseMode?: ResponseMode;
+  // Number of keywords, synonyms and patterns that hit (0 for the fallback)
+  score: number;
+  matchedTerms: string[];
+  clarify?: string[];
+  weather?: WeatherResponses;
+}
+
+export interface IntentCandidate {
+  match: IntentMatch;
+  // Share of the recognizer's confidence behind this intent (0-1)
+  confidence: number;
+}
+
+// Every alternative scored against the intents (see interpretUtterance)
+export interface Interpretation {
+  // Most likely first; the fallback competes like any intent
+  candidates: IntentCandidate[];
+  // Set when the character should ask before acting on the best candidate
+  clarify: IntentMatch | null;
+}
+
+// ============================================
+// Scenarios - guided conversations (see src/scenarios/)
+// ============================================
+
+// Answers are matched like intents: keywords and synonyms on word
+// boundaries, regex patterns, and negative patterns that rule a branch out
+export interface ScenarioBranch {
+  keywords?: string[];
+  synonyms?: string[];
+  patterns?: string[];
+  negativePatterns?: string[];
+  // Said before the next node's line ("Nice to meet you!")
+  acknowledge?: string[];
+  next: string;
+}
+
+// A question (it has branches) or an end node (it has an outcome)
+export interface ScenarioNode extends ResponseSet {
+  // Clip played while the line is said. End nodes that end the chat play
+  // the character's end state instead.
+  state?: VideoState;
+  // Tried in order against every recognition alternative; first match wins
+  branches?: ScenarioBranch[];
+  // Where answers no branch matches go. Without it the question is asked
+  // again, up to maxRetries (default 2) times, and then it's `onExhausted`.
+  otherwise?: string;
+  maxRetries?: number;
+  onExhausted?: string;
+  // Asking again (default: the scenario's `retry` lines)
+  retry?: string[];
+  // End nodes: what the run counts as, and whether the chat ends with it
+  outcome?: string;
+  endChat?: boolean;
+}
+
+export interface ScenarioDefinition {
+  id: string;
+  title: string;
+  // Scenarios are written for one language
+  locale: Locale;
+  // Same as IntentConfig.matchWholeWords
+  matchWholeWords?: boolean;
+  start: string;
+  nodes: Record<string, ScenarioNode>;
+  retry: string[];
+}
+
+export interface ScenarioRun {
+  scenarioId: string;
+  nodeId: string;
+  // The start node waits for the greeting to finish before it's asked
+  asked: boolean;
+  // Failed attempts at the current question
+  retries: number;
+  // Questions answered so far
+  answered: number;
+  // Set by the end node - or "abandoned" when the chat ends first
+  outcome: string | null;
+}
+
+// What the app reports to analytics sinks (see src/analytics). The bus adds
+// `at` and `sessionId`.
+export type AnalyticsEventBody =
+  | {
+      type: "chatStarted";
+      characterId: string;
+      inputMode: InputMode;
+      listeningMode: ListeningMode;
+      locale: Locale;
+    }
+  | { type: "chatEnded"; reason: string; durationMs: number; userTurns: number }
+  // `text` is "[redacted]" unless transcripts are opted in
+  | { type: "utterance"; text: string; chars: number; words: number }
+  | {
+      type: "intentMatched";
+      intentId: string;
+      targetState: VideoState;
+      isFallback: boolean;
+      confidence: number;
+    }
+  // A clarifying question, and what became of it
+  | {
+      type: "clarification";
+      intentId: string;
+      outcome: "asked" | "confirmed" | "rejected" | "ignored";
+    }
+  | {
+      type: "scenarioEnded";
+      scenarioId: string;
+      outcome: string;
+      answered: number;
+    }
+  | {
+      type: "stateTransition";
+      from: VideoState;
+      to: VideoState;
+      source: string;
+      accepted: boolean;
+      reason?: string;
+    }
+  | { type: "recognitionError"; error: string; kind: string }
+  | { type: "videoFailed"; state: VideoState; src: string | null };
+
+export type AnalyticsEvent = AnalyticsEventBody & {
+  at: number;
+  sessionId: string | null;
+};
+
+export interface AnalyticsSink {
+  name: string;
+  handle: (event: AnalyticsEvent) => void;
+  // Send whatever is still buffered (on page hide, or when removed)
+  flush?: () => void;
+  dispose?: () => void;
 }
+
+// ============================================
+// Embed protocol - postMessage between a host page and the app in an iframe
+// (see src/embed/)
+// ============================================
+
+export type EmbedCommand =
+  // Sent by the host until the app answers with "ready"
+  | { type: "connect" }
+  | { type: "startChat" }
+  | { type: "endChat" }
+  | { type: "setState"; state: VideoState }
+  // Goes through the utterance pipeline as if the user had said it
+  | { type: "utterance"; text: string };
+
+export type EmbedErrorCode =
+  | "unsupportedVersion"
+  | "unknownCommand"
+  | "notReady"
+  | "notActive"
+  | "notListening"
+  | "rejected"
+  | "characterError"
+  | "inputIssue";
+
+export type EmbedEvent =
+  | {
+      type: "ready";
+      characterId: string | null;
+      state: VideoState;
+      isActive: boolean;
+    }
+  // The answer to the command with the same id
+  | {
+      type: "result";
+      id: string;
+      ok: boolean;
+      error?: EmbedErrorCode;
+      // What went wrong, when there's more to say than the code
+      message?: string;
+    }
+  | { type: "transcript"; entry: TranscriptEntry }
+  | { type: "stateChange"; to: VideoState; from: VideoState }
+  | { type: "sessionEnd"; session: ChatSession }
+  | { type: "error"; code: EmbedErrorCode; message: string };
+
+// Every message either way is wrapped like this. `id` is set on commands
+// that want a "result" back.
+export type EmbedMessage<T extends EmbedCommand | EmbedEvent> = T & {
+  protocol: "virtual-chat";
+  version: number;
+  id?: string;
+};
@@ -0,0 +1,304 @@
+import type { CharacterManifest, VideoState } from "../types";
+
+// ============================================
+// Clip loader - decides which clips are fetched when, retries failures with
+// backoff and evicts the least likely clips once they exceed the memory
+// budget.
+// It doesn't touch the DOM: VideoPlayer does the loading and reports back.
+// ============================================
+
+export type ClipStatus =
+  "queued" | "loading" | "loaded" | "retrying" | "failed" | "evicted";
+
+export interface ClipLoaderOptions {
+  // Every clip, most likely to be needed first (see clipLoadOrder). This is
+  // also the eviction order, from the back.
+  order: VideoState[];
+  // Loaded before anything else and never evicted
+  critical: VideoState[];
+  budgetBytes: number;
+  // Start fetching a clip. `attempt` is 0 for the first try.
+  load: (state: VideoState, attempt: number) => void;
+  // Drop a clip's source so the browser can free its buffers
+  unload: (state: VideoState) => void;
+  onChange: (state: VideoState, status: ClipStatus) => void;
+  concurrency?: number;
+  maxRetries?: number;
+}
+
+export interface ClipLoader {
+  start: () => void;
+  // Reported by the video element
+  loaded: (state: VideoState, bytes: number) => void;
+  failed: (state: VideoState) => void;
+  // These clips are playing or about to - load them now, keep them loaded
+  use: (states: VideoState[]) => void;
+  status: (state: VideoState) => ClipStatus;
+  usedBytes: () => number;
+  dispose: () => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000;
+
+// 1s, 2s, 4s, ...
+export const clipRetryDelay = (attempt: number) =>
+  RETRY_BASE_DELAY * 2 ** attempt;
+
+// The clips the first seconds of a chat can't do without: the idle loop,
+// the greeting and whatever the greeting hands over to
+export const criticalClips = (manifest: CharacterManifest): VideoState[] => {
+  const { initialState, startState, states } = manifest;
+  const afterStart = states[startState]?.onEnd;
+  return [
+    ...new Set([
+      initialState,
+      startState,
+      ...(afterStart?.type === "transition" ? [afterStart.to] : []),
+    ]),
+  ];
+};
+
+// Most conversations reply, miss an intent or go quiet long before they
+// say goodbye; intent-only clips come after those
+const LIKELY_STATES: VideoState[] = ["response", "fallback", "prompt"];
+
+export const clipLoadOrder = (manifest: CharacterManifest): VideoState[] => {
+  const all = Object.keys(manifest.states);
+  const first = [
+    ...criticalClips(manifest),
+    ...LIKELY_STATES.filter((state) => manifest.states[state]),
+  ];
+  const rest = all.filter(
+    (state) => !first.includes(state) && state !== manifest.endState,
+  );
+  return [...new Set([...first, ...rest, manifest.endState])];
+};
+
+export interface ClipSize {
+  width: number;
+  height: number;
+  // Seconds
+  duration: number;
+  // The file as fetched, 0 when the browser doesn't say (see fetchedBytes)
+  fileBytes: number;
+}
+
+// The decoder holds a few frames per element, at 1.5 bytes a pixel (4:2:0)
+const DECODED_FRAMES = 4;
+// Assumed bitrate when the file size isn't known: ~4 Mbit/s
+const FALLBACK_BYTES_PER_SECOND = 512 * 1024;
+
+// A loaded clip costs its buffered media - the whole file, since clips are
+// short and preloaded - plus the decoder's frames. A 10s 1080p clip comes
+// to ~17MB.
+export const estimateClipBytes = ({
+  width,
+  height,
+  duration,
+  fileBytes,
+}: ClipSize) => {
+  const media =
+    fileBytes ||
+    (Number.isFinite(duration) ? duration : 0) * FALLBACK_BYTES_PER_SECOND;
+  return Math.round(media + width * height * 1.5 * DECODED_FRAMES);
+};
+
+// Bytes fetched for a URL, from Resource Timing. 0 for cross-origin files
+// without Timing-Allow-Origin, or before the request has finished.
+export const fetchedBytes = (url: string) => {
+  if (typeof performance === "undefined" || !url) return 0;
+  return Math.max(
+    0,
+    ...performance
+      .getEntriesByName(url)
+      .map((entry) => (entry as PerformanceResourceTiming).decodedBodySize),
+  );
+};
+
+const MB = 1024 * 1024;
+const DEFAULT_BUDGET_MB = 192;
+
+// VITE_VIDEO_MEMORY_BUDGET_MB wins; otherwise scale with the device's
+// memory where the browser tells us (Chrome's navigator.deviceMemory)
+export const getMemoryBudget = () => {
+  const configured = Number(import.meta.env.VITE_VIDEO_MEMORY_BUDGET_MB);
+  if (configured > 0) return configured * MB;
+
+  const deviceMemory =
+    typeof navigator !== "undefined"
+      ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+      : undefined;
+  if (!deviceMemory) return DEFAULT_BUDGET_MB * MB;
+  return Math.min(256, Math.max(64, deviceMemory * 32)) * MB;
+};
+
+export const createClipLoader = ({
+  order,
+  critical,
+  budgetBytes,
+  load,
+  unload,
+  onChange,
+  concurrency = DEFAULT_CONCURRENCY,
+  maxRetries = DEFAULT_MAX_RETRIES,
+}: ClipLoaderOptions): ClipLoader => {
+  const statuses = new Map<VideoState, ClipStatus>(
+    order.map((state) => [state, "queued"]),
+  );
+  const attempts = new Map<VideoState, number>();
+  const bytes = new Map<VideoState, number>();
+  const retryTimers = new Map<VideoState, ReturnType<typeof setTimeout>>();
+  // Asked for by use() - these jump the queue and may evict others
+  const wanted = new Set<VideoState>();
+  let inUse: VideoState[] = [];
+  let started = false;
+  let disposed = false;
+
+  const status = (state: VideoState) => statuses.get(state) ?? "failed";
+
+  const setStatus = (state: VideoState, next: ClipStatus) => {
+    if (statuses.get(state) === next) return;
+    statuses.set(state, next);
+    onChange(state, next);
+  };
+
+  const usedBytes = () => {
+    let total = 0;
+    for (const [state, size] of bytes) {
+      if (status(state) === "loaded") total += size;
+    }
+    return total;
+  };
+
+  const inFlight = () =>
+    [...statuses.values()].filter((s) => s === "loading").length;
+
+  const criticalSettled = () =>
+    critical.every((state) => ["loaded", "failed"].includes(status(state)));
+
+  const fetchClip = (state: VideoState) => {
+    setStatus(state, "loading");
+    load(state, attempts.get(state) ?? 0);
+  };
+
+  // Lower is likelier to be needed
+  const rank = (state: VideoState) => order.indexOf(state);
+
+  // Loaded clips that may go to make room for `incoming`, least likely
+  // first. Never what's critical or playing; and a clip loaded in the
+  // background only pushes out ones less likely than itself.
+  const evictable = (incoming: VideoState, needed: boolean) =>
+    [...statuses.keys()]
+      .filter(
+        (state) =>
+          status(state) === "loaded" &&
+          state !== incoming &&
+          !critical.includes(state) &&
+          !inUse.includes(state) &&
+          (needed || rank(state) > rank(incoming)),
+      )
+      .sort((a, b) => rank(b) - rank(a));
+
+  const evictFor = (incoming: VideoState, needed: boolean) => {
+    for (const state of evictable(incoming, needed)) {
+      if (usedBytes() <= budgetBytes) return;
+      unload(state);
+      setStatus(state, "evicted");
+    }
+  };
+
+  const pump = () => {
+    if (disposed || !started) return;
+
+    // Needed clips go first, whatever they cost
+    for (const state of wanted) {
+      if (inFlight() >= concurrency) return;
+      if (["queued", "evicted"].includes(status(state))) fetchClip(state);
+    }
+
+    // Then the critical set, then the background queue. Once the budget is
+    // full a clip only loads in place of less likely ones, so the queue
+    // stops at the first clip that has nothing left to replace. Evicted
+    // clips are back in the queue, so the budget ends up holding the most
+    // likely ones. The rest load when they're needed.
+    for (const state of order) {
+      if (inFlight() >= concurrency) return;
+      if (!["queued", "evicted"].includes(status(state))) continue;
+      if (!critical.includes(state)) {
+        if (!criticalSettled()) return;
+        // An evicted clip's size is known from last time
+        const cost = bytes.get(state) ?? 0;
+        if (
+          usedBytes() + cost >= budgetBytes &&
+          evictable(state, false).length === 0
+        ) {
+          return;
+        }
+      }
+      fetchClip(state);
+    }
+  };
+
+  return {
+    start: () => {
+      started = true;
+      pump();
+    },
+
+    loaded: (state, size) => {
+      if (disposed || status(state) !== "loading") return;
+      const needed = wanted.has(state) || inUse.includes(state);
+      bytes.set(state, size);
+      attempts.delete(state);
+      wanted.delete(state);
+      setStatus(state, "loaded");
+      evictFor(state, needed);
+      pump();
+    },
+
+    failed: (state) => {
+      if (disposed || status(state) !== "loading") return;
+      const attempt = attempts.get(state) ?? 0;
+
+      if (attempt >= maxRetries) {
+        wanted.delete(state);
+        setStatus(state, "failed");
+        pump();
+        return;
+      }
+
+      attempts.set(state, attempt + 1);
+      setStatus(state, "retrying");
+      // Back into the queue, so retries respect the concurrency limit too
+      retryTimers.set(
+        state,
+        setTimeout(() => {
+          retryTimers.delete(state);
+          if (disposed) return;
+          setStatus(state, "queued");
+          pump();
+        }, clipRetryDelay(attempt)),
+      );
+      pump();
+    },
+
+    use: (states) => {
+      inUse = states;
+      for (const state of states) {
+        if (["queued", "evicted"].includes(status(state))) wanted.add(state);
+      }
+      pump();
+    },
+
+    status,
+    usedBytes,
+
+    dispose: () => {
+      disposed = true;
+      retryTimers.forEach((timer) => clearTimeout(timer));
+      retryTimers.clear();
+    },
+  };
+};
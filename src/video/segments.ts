@@ -0,0 +1,71 @@
+import type { ClipSegment } from "../types";
+
+// ============================================
+// Segment playback - plays one state's time range of a sprite video. It
+// loops inside the range or stops at its end. The caller decides when to
+// call play().
+// ============================================
+
+// Segments end this early so no frame of the next segment ever shows. The
+// playhead is checked once per animation frame, and a 30fps frame lasts ~33ms.
+export const SEGMENT_END_LEAD = 0.05;
+
+export interface SegmentOptions {
+  loop: boolean;
+  // Called once when a non-looping segment reaches its end
+  onEnd: () => void;
+}
+
+// Seeks to the segment start and watches the playhead. Returns a function
+// that stops watching.
+export const playSegment = (
+  video: HTMLVideoElement,
+  { start, end }: ClipSegment,
+  { loop, onEnd }: SegmentOptions,
+): (() => void) => {
+  let frame = 0;
+  let done = false;
+
+  const reachEnd = () => {
+    if (loop) {
+      video.currentTime = start;
+      return;
+    }
+    done = true;
+    video.pause();
+    onEnd();
+  };
+
+  const watch = () => {
+    if (done) return;
+    if (video.currentTime >= end - SEGMENT_END_LEAD) reachEnd();
+    if (!done) frame = requestAnimationFrame(watch);
+  };
+
+  // A segment cut up to the end of the file can end before the check sees it
+  const handleEnded = () => {
+    if (done) return;
+    reachEnd();
+    if (loop) {
+      video.play().catch((err) => {
+        console.error("Failed to loop sprite segment:", err);
+      });
+    }
+  };
+
+  video.currentTime = start;
+  video.addEventListener("ended", handleEnded);
+  frame = requestAnimationFrame(watch);
+
+  return () => {
+    done = true;
+    cancelAnimationFrame(frame);
+    video.removeEventListener("ended", handleEnded);
+  };
+};
+
+// Where the playhead is within a segment, for diagnostics
+export const segmentPosition = (
+  video: HTMLVideoElement,
+  { start, end }: ClipSegment,
+) => Math.min(Math.max(video.currentTime - start, 0), end - start);
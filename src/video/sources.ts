@@ -0,0 +1,57 @@
+import type {
+  CharacterManifest,
+  ClipSegment,
+  Locale,
+  VideoState,
+} from "../types";
+import { clipLoadOrder, criticalClips } from "./clipLoader";
+
+// ============================================
+// Video sources - which <video> element plays a state. A per-file pack has
+// one element per state. A sprite pack has one per sprite file, and each
+// state plays its segment of it.
+// ============================================
+
+export interface VideoSource {
+  src: string;
+  srcByLocale?: Partial<Record<Locale, string>>;
+}
+
+export interface VideoLayout {
+  // The files to play, keyed by state or sprite id. These are what the
+  // clip loader loads and evicts.
+  sources: Record<string, VideoSource>;
+  // Elements per source. A sprite gets two, so one of its segments can
+  // blend into another.
+  decks: number;
+  sourceFor: (state: VideoState) => string;
+  // null plays the whole file
+  segmentFor: (state: VideoState) => ClipSegment | null;
+  // clipLoadOrder and criticalClips, in sources
+  order: string[];
+  critical: string[];
+}
+
+export const videoLayout = (manifest: CharacterManifest): VideoLayout => {
+  const { sprites, states } = manifest;
+
+  const sourceFor = (state: VideoState) =>
+    (sprites && states[state]?.segment?.sprite) || state;
+  const sourcesOf = (list: VideoState[]) => [...new Set(list.map(sourceFor))];
+
+  return {
+    sources:
+      sprites ??
+      Object.fromEntries(
+        Object.entries(states).map(([state, { src, srcByLocale }]) => [
+          state,
+          { src: src ?? "", srcByLocale },
+        ]),
+      ),
+    decks: sprites ? 2 : 1,
+    sourceFor,
+    segmentFor: (state) => (sprites && states[state]?.segment) || null,
+    order: sourcesOf(clipLoadOrder(manifest)),
+    critical: sourcesOf(criticalClips(manifest)),
+  };
+};
@@ -0,0 +1,213 @@
+import type { CharacterManifest, VideoState } from "../types";
+import type { VideoLayout } from "./sources";
+import { playSegment, segmentPosition } from "./segments";
+import { planTransition, timeToBoundary } from "./transitions";
+
+// ============================================
+// Transition player - puts the clip for a state on screen. The incoming
+// clip fades in on top while the outgoing one keeps playing underneath,
+// so a crossfade is a true blend rather than a dip to black. It can also
+// wait for a loop boundary and play a bridging clip on the way (see
+// transitions.ts). It drives the <video> elements VideoPlayer renders.
+// ============================================
+
+export interface TransitionPlayerOptions {
+  manifest: CharacterManifest;
+  layout: VideoLayout;
+  // The elements for a source, `layout.decks` of them
+  videosFor: (source: string) => HTMLVideoElement[];
+  // Bridging clips are skipped until they're loaded
+  isReady: (state: VideoState) => boolean;
+  // A clip that was shown for its state (not as a bridge) finished
+  onEnd: (state: VideoState) => void;
+}
+
+export interface TransitionPlayer {
+  // Move to `state`. Before the chat is active only the muted initial
+  // clip plays - browsers block sound until the Start click.
+  show: (state: VideoState, options: { active: boolean }) => void;
+  // What's on screen - behind the target while a transition runs
+  shown: () => { state: VideoState; video: HTMLVideoElement } | null;
+  dispose: () => void;
+}
+
+// The layer order while a crossfade runs
+const BACK = "1";
+const FRONT = "2";
+
+export const createTransitionPlayer = ({
+  manifest,
+  layout,
+  videosFor,
+  isReady,
+  onEnd,
+}: TransitionPlayerOptions): TransitionPlayer => {
+  let front: HTMLVideoElement | null = null;
+  let frontState: VideoState | null = null;
+  let target: VideoState | null = null;
+  let active = false;
+  // Per element: watches its clip for the end. The outgoing clip keeps
+  // its watcher through the crossfade so a segment can't run past its end.
+  const watchers = new Map<HTMLVideoElement, () => void>();
+  // A boundary wait or the end of a crossfade
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const allVideos = () => Object.keys(layout.sources).flatMap(videosFor);
+
+  const later = (ms: number, run: () => void) => {
+    timers.push(setTimeout(run, ms));
+  };
+
+  const clearPending = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers = [];
+  };
+
+  const stopWatching = (video: HTMLVideoElement) => {
+    watchers.get(video)?.();
+    watchers.delete(video);
+  };
+
+  const hide = (video: HTMLVideoElement) => {
+    stopWatching(video);
+    video.style.transition = "none";
+    video.style.opacity = "0";
+    video.style.zIndex = "0";
+    video.pause();
+  };
+
+  const startPlaying = (video: HTMLVideoElement, state: VideoState) => {
+    if (!active && !(state === manifest.initialState && video.muted)) return;
+    video.play().catch((err) => {
+      console.error(`Failed to play ${state} video:`, err);
+    });
+  };
+
+  // How far into its clip (or segment) a state is, in seconds
+  const clipTime = (video: HTMLVideoElement, state: VideoState) => {
+    const segment = layout.segmentFor(state);
+    return segment
+      ? {
+          position: segmentPosition(video, segment),
+          duration: segment.end - segment.start,
+        }
+      : { position: video.currentTime, duration: video.duration };
+  };
+
+  // Start `state` from the top on the element that isn't in front, and
+  // fade it in over the current one. `then` runs when a bridge ends.
+  const cut = (state: VideoState, crossfadeMs: number, then?: () => void) => {
+    const videos = videosFor(layout.sourceFor(state));
+    const incoming = videos.find((video) => video !== front) ?? videos[0];
+    if (!incoming) return;
+    const outgoing = front;
+
+    stopWatching(incoming);
+    // Only the clip in front reports - not one fading out underneath
+    const handleEnd = () => {
+      if (front !== incoming || frontState !== state) return;
+      if (then) then();
+      else onEnd(state);
+    };
+    const definition = manifest.states[state];
+    const segment = layout.segmentFor(state);
+    if (segment) {
+      // A sprite plays many states, so it takes the state's sound setting
+      incoming.muted = !!definition?.muted;
+      watchers.set(
+        incoming,
+        playSegment(incoming, segment, {
+          loop: !!definition?.loop,
+          onEnd: handleEnd,
+        }),
+      );
+    } else {
+      incoming.currentTime = 0;
+      incoming.addEventListener("ended", handleEnd);
+      watchers.set(incoming, () =>
+        incoming.removeEventListener("ended", handleEnd),
+      );
+    }
+
+    // Whatever an earlier, cut-short transition left on screen goes now
+    for (const video of allVideos()) {
+      if (video !== incoming && video !== outgoing) hide(video);
+    }
+
+    front = incoming;
+    frontState = state;
+    const blend = !!outgoing && outgoing !== incoming && crossfadeMs > 0;
+    incoming.style.zIndex = FRONT;
+    incoming.style.transition = "none";
+    if (blend) {
+      outgoing.style.zIndex = BACK;
+      incoming.style.opacity = "0";
+      // Commit the starting opacity so the change below animates
+      void incoming.offsetWidth;
+      incoming.style.transition = `opacity ${crossfadeMs}ms linear`;
+      later(crossfadeMs, () => hide(outgoing));
+    } else if (outgoing && outgoing !== incoming) {
+      hide(outgoing);
+    }
+    incoming.style.opacity = "1";
+
+    startPlaying(incoming, state);
+  };
+
+  return {
+    show: (state, options) => {
+      active = options.active;
+      if (state === target) {
+        if (front && frontState === state) startPlaying(front, state);
+        return;
+      }
+
+      target = state;
+      clearPending();
+      const from = frontState;
+      if (!front || from === null) {
+        cut(state, 0);
+        return;
+      }
+
+      const plan = planTransition(manifest, from, state);
+      const via = plan.via && isReady(plan.via) ? plan.via : null;
+      const go = () => {
+        if (!via) {
+          cut(state, plan.crossfadeMs);
+          return;
+        }
+        cut(via, plan.crossfadeMs, () =>
+          cut(state, planTransition(manifest, via, state).crossfadeMs),
+        );
+      };
+
+      // Only a looping clip that's actually playing has a boundary coming
+      let waitMs = 0;
+      if (
+        plan.waitForBoundary &&
+        manifest.states[from]?.loop &&
+        !front.paused
+      ) {
+        const { position, duration } = clipTime(front, from);
+        const boundaries = manifest.states[from]?.boundaries ?? [0];
+        waitMs = Math.min(
+          timeToBoundary(position, duration, boundaries) * 1000,
+          plan.maxWaitMs,
+        );
+      }
+
+      if (waitMs > 0) later(waitMs, go);
+      else go();
+    },
+
+    shown: () =>
+      front && frontState !== null ? { state: frontState, video: front } : null,
+
+    dispose: () => {
+      clearPending();
+      watchers.forEach((stop) => stop());
+      watchers.clear();
+    },
+  };
+};
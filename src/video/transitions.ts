@@ -0,0 +1,68 @@
+import type { CharacterManifest, ClipTransition, VideoState } from "../types";
+
+// ============================================
+// Clip transitions - how the player gets from one clip to the next, from
+// the manifest's clipTransitions rules
+// ============================================
+
+export const DEFAULT_CROSSFADE_MS = 150;
+export const DEFAULT_MAX_WAIT_MS = 2000;
+
+export interface TransitionPlan {
+  crossfadeMs: number;
+  waitForBoundary: boolean;
+  maxWaitMs: number;
+  via: VideoState | null;
+}
+
+// An exact `from` beats an exact `to`, which beats "*"
+const specificity = ({ from, to }: ClipTransition) =>
+  (from === "*" ? 0 : 2) + (to === "*" ? 0 : 1);
+
+// Every matching rule applies, least specific first. So "listening -> *"
+// can add a wait on top of a "* -> *" crossfade.
+export const planTransition = (
+  manifest: CharacterManifest,
+  from: VideoState,
+  to: VideoState,
+): TransitionPlan => {
+  const rules = (manifest.clipTransitions ?? [])
+    .filter(
+      (rule) =>
+        (rule.from === "*" || rule.from === from) &&
+        (rule.to === "*" || rule.to === to),
+    )
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  const plan: TransitionPlan = {
+    crossfadeMs: DEFAULT_CROSSFADE_MS,
+    waitForBoundary: false,
+    maxWaitMs: DEFAULT_MAX_WAIT_MS,
+    via: null,
+  };
+  for (const rule of rules) {
+    plan.crossfadeMs = rule.crossfadeMs ?? plan.crossfadeMs;
+    plan.waitForBoundary = rule.waitForBoundary ?? plan.waitForBoundary;
+    plan.maxWaitMs = rule.maxWaitMs ?? plan.maxWaitMs;
+    plan.via = rule.via ?? plan.via;
+  }
+
+  // A bridge from or to itself is just the clip
+  if (plan.via === from || plan.via === to) plan.via = null;
+  return plan;
+};
+
+// Seconds until a looping clip next passes one of its boundaries
+export const timeToBoundary = (
+  position: number,
+  duration: number,
+  boundaries: number[],
+) => {
+  if (!(duration > 0) || boundaries.length === 0) return 0;
+  return Math.min(
+    ...boundaries.map((boundary) => {
+      const ahead = (boundary - position) % duration;
+      return ahead < 0 ? ahead + duration : ahead;
+    }),
+  );
+};
@@ -0,0 +1,20 @@
+import type { WeatherProvider } from "../types";
+import { WeatherError, parseWeatherReport } from "./provider";
+
+// GETs `url?location=...&locale=...` and expects
+// `{ location, condition, temperatureC }` back
+export const createHttpWeatherProvider = (url: string): WeatherProvider => ({
+  name: `http:${url}`,
+
+  current: async ({ location, locale }, signal) => {
+    const target = new URL(url, window.location.href);
+    if (location) target.searchParams.set("location", location);
+    target.searchParams.set("locale", locale);
+
+    const res = await fetch(target, { signal });
+    if (!res.ok) {
+      throw new WeatherError(`${url} responded with HTTP ${res.status}`);
+    }
+    return parseWeatherReport(await res.json(), url);
+  },
+});
@@ -0,0 +1,117 @@
+import type {
+  CharacterManifest,
+  VideoState,
+  WeatherProvider,
+  WeatherReport,
+  WeatherRequest,
+  WeatherResponses,
+} from "../types";
+import type { TemplateVars } from "../responses/templates";
+import { WeatherError } from "./provider";
+import { createHttpWeatherProvider } from "./httpProvider";
+import { createStaticWeatherProvider } from "./staticProvider";
+
+export {
+  WeatherError,
+  WEATHER_CONDITIONS,
+  WEATHER_VARS,
+  isWeatherCondition,
+  parseWeatherReport,
+} from "./provider";
+export { createHttpWeatherProvider } from "./httpProvider";
+export { createStaticWeatherProvider } from "./staticProvider";
+
+const DEFAULT_TIMEOUT = 3000;
+const DEFAULT_CACHE_MS = 10 * 60 * 1000;
+const DEFAULT_FILE = "/weather.json";
+
+// VITE_WEATHER_URL switches to the HTTP provider; otherwise the reports come
+// from VITE_WEATHER_FILE. Set VITE_WEATHER_FILE=off for the generic lines only.
+const weatherUrl: string | undefined = import.meta.env.VITE_WEATHER_URL;
+const weatherFile: string = import.meta.env.VITE_WEATHER_FILE ?? DEFAULT_FILE;
+
+export const weatherTimeout =
+  Number(import.meta.env.VITE_WEATHER_TIMEOUT_MS) || DEFAULT_TIMEOUT;
+
+export const weatherCacheMs =
+  Number(import.meta.env.VITE_WEATHER_CACHE_MS) || DEFAULT_CACHE_MS;
+
+// Asked about when the user hasn't said where they're from
+export const defaultWeatherLocation: string | null =
+  import.meta.env.VITE_WEATHER_LOCATION || null;
+
+export const weatherProvider: WeatherProvider | null = weatherUrl
+  ? createHttpWeatherProvider(weatherUrl)
+  : weatherFile !== "off"
+    ? createStaticWeatherProvider(weatherFile)
+    : null;
+
+// Reports are shared by every chat on the page. Failures aren't cached, so
+// the next question tries again.
+const cache = new Map<string, { report: WeatherReport; expiresAt: number }>();
+
+const cacheKey = (provider: WeatherProvider, request: WeatherRequest) =>
+  `${provider.name}|${request.locale}|${request.location?.toLowerCase() ?? ""}`;
+
+// A fresh cached report, if there is one - lets the caller skip the
+// "thinking" clip
+export const peekWeather = (
+  provider: WeatherProvider,
+  request: WeatherRequest,
+): WeatherReport | null => {
+  const hit = cache.get(cacheKey(provider, request));
+  return hit && hit.expiresAt > Date.now() ? hit.report : null;
+};
+
+// Cached, or asked for with a `timeoutMs` limit. Resolves with null when
+// the provider fails - the intent then says its generic line.
+export const getWeather = async (
+  provider: WeatherProvider,
+  request: WeatherRequest,
+  { timeoutMs = weatherTimeout, cacheMs = weatherCacheMs } = {},
+): Promise<WeatherReport | null> => {
+  const cached = peekWeather(provider, request);
+  if (cached) return cached;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const report = await provider.current(request, controller.signal);
+    cache.set(cacheKey(provider, request), {
+      report,
+      expiresAt: Date.now() + cacheMs,
+    });
+    return report;
+  } catch (e) {
+    const error = controller.signal.aborted
+      ? new WeatherError(`${provider.name} timed out after ${timeoutMs}ms`)
+      : (e as Error);
+    console.warn(
+      "⚠ Weather unavailable, using the generic line:",
+      error.message,
+    );
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Template variables for the intent's weather lines
+export const weatherVars = (
+  report: WeatherReport,
+  { conditions }: WeatherResponses,
+): TemplateVars => ({
+  condition: conditions[report.condition],
+  temperature: String(Math.round(report.temperatureC)),
+  location: report.location,
+});
+
+// The pack's clip for the condition ("weather-rainy") if it has one
+export const weatherState = (
+  character: CharacterManifest | null,
+  targetState: VideoState,
+  report: WeatherReport | null,
+): VideoState => {
+  const variant = report && `${targetState}-${report.condition}`;
+  return variant && character?.states[variant] ? variant : targetState;
+};
@@ -0,0 +1,47 @@
+import type { WeatherCondition, WeatherReport } from "../types";
+
+// ============================================
+// What every weather provider shares: the error type and report validation
+// ============================================
+
+export const WEATHER_CONDITIONS: WeatherCondition[] = [
+  "sunny",
+  "cloudy",
+  "rainy",
+  "snowy",
+];
+
+// What weather lines can say on top of the usual template variables (see
+// weatherVars)
+export const WEATHER_VARS = ["condition", "temperature", "location"];
+
+export class WeatherError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WeatherError";
+  }
+}
+
+export const isWeatherCondition = (value: unknown): value is WeatherCondition =>
+  WEATHER_CONDITIONS.includes(value as WeatherCondition);
+
+// `source` names where the report came from, for the error message
+export const parseWeatherReport = (
+  value: unknown,
+  source: string,
+): WeatherReport => {
+  const report = value as Partial<WeatherReport> | null;
+  if (
+    typeof report?.location !== "string" ||
+    !isWeatherCondition(report.condition) ||
+    typeof report.temperatureC !== "number" ||
+    !Number.isFinite(report.temperatureC)
+  ) {
+    throw new WeatherError(`${source} returned an invalid report`);
+  }
+  return {
+    location: report.location,
+    condition: report.condition,
+    temperatureC: report.temperatureC,
+  };
+};
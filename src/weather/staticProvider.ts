@@ -0,0 +1,100 @@
+import type { WeatherProvider, WeatherReport } from "../types";
+import { WeatherError, parseWeatherReport } from "./provider";
+
+// A JSON file of fixed reports (see public/weather.json):
+//
+//   {
+//     "default": "Tashkent",
+//     "reports": [
+//       { "location": "Tokyo", "aliases": ["東京"], "condition": "rainy",
+//         "temperatureC": 18 }
+//     ]
+//   }
+//
+// Good for demos and offline kiosks, or as a template for a real provider.
+interface StaticEntry {
+  report: WeatherReport;
+  names: string[];
+}
+
+interface StaticWeather {
+  defaultLocation: string | null;
+  entries: StaticEntry[];
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const parseFile = (value: unknown, url: string): StaticWeather => {
+  const doc = value as { default?: unknown; reports?: unknown } | null;
+  if (!Array.isArray(doc?.reports)) {
+    throw new WeatherError(`${url} needs a "reports" array`);
+  }
+  return {
+    defaultLocation: typeof doc.default === "string" ? doc.default : null,
+    entries: doc.reports.map((entry: { aliases?: unknown }) => {
+      const report = parseWeatherReport(entry, url);
+      const aliases = Array.isArray(entry.aliases) ? entry.aliases : [];
+      return {
+        report,
+        names: [report.location, ...aliases]
+          .filter((name): name is string => typeof name === "string")
+          .map(normalize),
+      };
+    }),
+  };
+};
+
+// Settles like `promise`, or rejects as soon as `signal` aborts - without
+// stopping whatever `promise` is waiting on
+const unlessAborted = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+): Promise<T> => {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    signal.addEventListener("abort", abort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", abort));
+  });
+};
+
+export const createStaticWeatherProvider = (url: string): WeatherProvider => {
+  // Fetched once; a failed load is retried on the next question. Callers
+  // share the fetch, so it doesn't take their signals - one caller timing
+  // out mustn't fail the others.
+  let file: Promise<StaticWeather> | null = null;
+
+  const load = () => {
+    file ??= fetch(url)
+      .then((res) => {
+        if (!res.ok) {
+          throw new WeatherError(`${url} responded with HTTP ${res.status}`);
+        }
+        return res.json();
+      })
+      .then((value) => parseFile(value, url))
+      .catch((e) => {
+        file = null;
+        throw e;
+      });
+    return file;
+  };
+
+  return {
+    name: `static:${url}`,
+
+    current: async ({ location }, signal) => {
+      const { defaultLocation, entries } = await unlessAborted(load(), signal);
+      const wanted = location ?? defaultLocation;
+      const entry =
+        wanted &&
+        entries.find(({ names }) => names.includes(normalize(wanted)));
+      if (!entry) {
+        throw new WeatherError(`${url} has no report for "${wanted ?? ""}"`);
+      }
+      return entry.report;
+    },
+  };
+};
@@ -2,6 +2,28 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
-})
+  // `vite build --mode lib` bundles <VirtualChat> for other apps instead
+  build:
+    mode === 'lib'
+      ? {
+          outDir: 'dist-lib',
+          copyPublicDir: false,
+          lib: {
+            // The iframe client gets its own file so host pages don't
+            // need React
+            entry: {
+              'virtual-chat': 'src/lib.ts',
+              'embed-client': 'src/embed/client.ts',
+            },
+            formats: ['es'],
+            fileName: (_format, name) => `${name}.js`,
+            cssFileName: 'virtual-chat',
+          },
+          rollupOptions: {
+            external: ['react', 'react-dom', 'react/jsx-runtime'],
+          },
+        }
+      : {},
+}))